@@ -0,0 +1,193 @@
+import { parseArgs } from "node:util";
+import { ExitCode, GooseError } from "./error-handler";
+import type { OutputFormat } from "./logger";
+
+type OptionSpec = {
+  type: "string" | "boolean";
+  short?: string;
+};
+
+/**
+ * Flags accepted by every command, before or after the command name.
+ */
+export const GLOBAL_OPTIONS = {
+  dir: { type: "string" },
+  table: { type: "string" },
+  driver: { type: "string" },
+  dbstring: { type: "string" },
+  env: { type: "string" },
+  "env-file": { type: "string" },
+  output: { type: "string" },
+  json: { type: "boolean" },
+  verbose: { type: "boolean" },
+  quiet: { type: "boolean", short: "q" },
+  help: { type: "boolean", short: "h" },
+  version: { type: "boolean", short: "v" },
+} satisfies Record<string, OptionSpec>;
+
+const DRY_RUN = { "dry-run": { type: "boolean" } } satisfies Record<
+  string,
+  OptionSpec
+>;
+const ALLOW_MISSING = {
+  "allow-missing": { type: "boolean" },
+} satisfies Record<string, OptionSpec>;
+
+const IGNORE_CHECKSUMS = {
+  "ignore-checksums": { type: "boolean" },
+} satisfies Record<string, OptionSpec>;
+
+const OUTPUT_FORMATS = ["text", "json"];
+
+type CommandSpec = {
+  // Maximum number of positional arguments after the command name
+  positionals: number;
+  options: Record<string, OptionSpec>;
+};
+
+export const COMMANDS: Record<string, CommandSpec> = {
+  create: { positionals: 2, options: { sequential: { type: "boolean" } } },
+  up: {
+    positionals: 0,
+    options: { ...DRY_RUN, ...ALLOW_MISSING, ...IGNORE_CHECKSUMS },
+  },
+  "up-by-one": {
+    positionals: 0,
+    options: { ...ALLOW_MISSING, ...IGNORE_CHECKSUMS },
+  },
+  "up-to": {
+    positionals: 1,
+    options: { ...DRY_RUN, ...ALLOW_MISSING, ...IGNORE_CHECKSUMS },
+  },
+  status: { positionals: 0, options: {} },
+  down: { positionals: 0, options: {} },
+  "down-to": { positionals: 1, options: DRY_RUN },
+  reset: { positionals: 0, options: DRY_RUN },
+  redo: { positionals: 0, options: {} },
+  fix: { positionals: 0, options: {} },
+  repair: { positionals: 0, options: {} },
+  validate: { positionals: 0, options: {} },
+  version: { positionals: 0, options: {} },
+  help: { positionals: 0, options: {} },
+};
+
+export type CliOptions = {
+  dir?: string;
+  table?: string;
+  driver?: string;
+  dbstring?: string;
+  env?: string;
+  "env-file"?: string;
+  output?: string;
+  json?: boolean;
+  "dry-run"?: boolean;
+  "allow-missing"?: boolean;
+  "ignore-checksums"?: boolean;
+  sequential?: boolean;
+  verbose?: boolean;
+  quiet?: boolean;
+  help?: boolean;
+  version?: boolean;
+  [flag: string]: string | boolean | undefined;
+};
+
+export type CliArgs = {
+  command: string | undefined;
+  // Positional arguments after the command name
+  args: string[];
+  options: CliOptions;
+};
+
+function invalidArgument(message: string, command?: string): GooseError {
+  return new GooseError(
+    `${message}. Run "ts-goose help" for usage information.`,
+    ExitCode.INVALID_ARGUMENT,
+    command ? { command } : {},
+  );
+}
+
+/**
+ * The output format requested by the raw CLI arguments, read before they are
+ * validated so that errors found while parsing them use that format too.
+ */
+export function peekOutputFormat(argv: string[]): OutputFormat {
+  return argv.some(
+    (arg, index) =>
+      arg === "--json" ||
+      arg === "--output=json" ||
+      (arg === "--output" && argv[index + 1] === "json"),
+  )
+    ? "json"
+    : "text";
+}
+
+/**
+ * Parse the CLI arguments (without the executable and script path).
+ * Throws a GooseError with ExitCode.INVALID_ARGUMENT for unknown commands,
+ * unknown flags, flags the command does not accept and extra arguments.
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+  // Every command's flags are known up front so that flag values are never
+  // mistaken for the command name; per-command validation happens below.
+  const options: Record<string, OptionSpec> = { ...GLOBAL_OPTIONS };
+  for (const spec of Object.values(COMMANDS)) {
+    Object.assign(options, spec.options);
+  }
+
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options,
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    throw invalidArgument(
+      (error instanceof Error ? error.message : String(error)).replace(
+        /\.$/,
+        "",
+      ),
+    );
+  }
+
+  const [command, ...args] = parsed.positionals;
+  const values = parsed.values as CliOptions;
+
+  if (values.verbose && values.quiet) {
+    throw invalidArgument("--verbose and --quiet cannot be used together");
+  }
+
+  if (values.output !== undefined && !OUTPUT_FORMATS.includes(values.output)) {
+    throw invalidArgument(
+      `Invalid output format "${values.output}", expected one of: ${OUTPUT_FORMATS.join(", ")}`,
+    );
+  }
+
+  if (command === undefined) {
+    return { command, args, options: values };
+  }
+
+  const spec = COMMANDS[command];
+  if (!spec) {
+    throw invalidArgument(`Invalid command: ${command}`);
+  }
+
+  for (const flag of Object.keys(values)) {
+    if (!(flag in GLOBAL_OPTIONS) && !(flag in spec.options)) {
+      throw invalidArgument(
+        `Flag --${flag} is not supported by "${command}"`,
+        command,
+      );
+    }
+  }
+
+  if (args.length > spec.positionals) {
+    throw invalidArgument(
+      `Unexpected argument "${args[spec.positionals]}" for "${command}"`,
+      command,
+    );
+  }
+
+  return { command, args, options: values };
+}
@@ -1,126 +1,216 @@
 #!/usr/bin/env bun
+import { type CliOptions, parseCliArgs, peekOutputFormat } from "./args";
 import { createCommand } from "./commands/create";
 import { downCommand } from "./commands/down";
 import { downToCommand } from "./commands/down-to";
+import { fixCommand } from "./commands/fix";
 import { helpCommand } from "./commands/help";
+import { redoCommand } from "./commands/redo";
+import { repairCommand } from "./commands/repair";
 import { resetCommand } from "./commands/reset";
 import { statusCommand } from "./commands/status";
 import { upCommand } from "./commands/up";
 import { upByOneCommand } from "./commands/up-by-one";
 import { upToCommand } from "./commands/up-to";
+import { validateCommand } from "./commands/validate";
 import { versionCommand } from "./commands/version";
+import { loadConfig, loadEnvFile } from "./config";
 import {
   exitSuccess,
+  handleError,
   handleInvalidArgument,
   handleVersionError,
 } from "./error-handler";
 import { initializeDatabase } from "./init";
+import {
+  getOutputFormat,
+  logger,
+  type OutputFormat,
+  setLogLevel,
+  setOutputFormat,
+} from "./logger";
+
+function parseVersionArgument(command: string, version: string | undefined) {
+  if (!version) {
+    handleInvalidArgument(
+      `VERSION argument is required. Usage: ts-goose ${command} <VERSION>`,
+      { command },
+    );
+  }
+  try {
+    return BigInt(version);
+  } catch {
+    handleVersionError(version, { command });
+  }
+}
+
+// Hide credentials when printing the connection string
+function redactDbUrl(dbUrl: string) {
+  return dbUrl.replace(/\/\/([^:/@]+):[^@]*@/, "//$1:****@");
+}
+
+async function loadCliConfig(options: CliOptions) {
+  const config = await loadConfig({
+    environment: options.env,
+    overrides: {
+      migration_dir: options.dir,
+      table_name: options.table,
+      driver: options.driver,
+      db_url: options.dbstring,
+    },
+  }).catch((error) => handleError(error));
+
+  logger.debug(
+    `Using driver=${config.driver} dbstring=${redactDbUrl(config.db_url)} dir=${config.migration_dir} table=${config.table_name}`,
+  );
+
+  return config;
+}
+
+// Command flags that change how the provider runs migrations
+function runFlags(options: CliOptions) {
+  return {
+    dry_run: options["dry-run"],
+    allow_missing: options["allow-missing"],
+    ignore_checksums: options["ignore-checksums"],
+  };
+}
 
 // Wrap CLI execution to handle async exits
 async function main() {
-  const command = process.argv[2];
-
-  const commands = {
-    create: "create",
-    up: "up",
-    "up-by-one": "up-by-one",
-    "up-to": "up-to",
-    status: "status",
-    down: "down",
-    "down-to": "down-to",
-    reset: "reset",
-    version: "version",
-    help: "help",
-  };
+  const argv = process.argv.slice(2);
+  setOutputFormat(peekOutputFormat(argv));
+
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (error) {
+    handleError(error as Error);
+  }
+  const { command, args, options } = parsed;
 
   // Handle special flags and no command
-  if (!command || command === "--help" || command === "-h") {
+  if (!command || options.help) {
     helpCommand();
     exitSuccess();
   }
 
-  if (command === "--version" || command === "-v") {
+  if (options.version) {
     versionCommand();
     exitSuccess();
   }
 
-  if (!command || !Object.keys(commands).includes(command)) {
-    handleInvalidArgument(
-      `Invalid command: ${command || "undefined"}. Run "ts-goose help" for usage information.`,
-      {},
-    );
+  setLogLevel(options.quiet ? "quiet" : options.verbose ? "verbose" : "normal");
+  setOutputFormat(
+    options.json ? "json" : ((options.output as OutputFormat) ?? "text"),
+  );
+
+  if (options["env-file"]) {
+    await loadEnvFile(options["env-file"]).catch((error) => handleError(error));
   }
 
   switch (command) {
     case "create": {
-      const args = process.argv.slice(3);
-      await createCommand(args);
+      await createCommand(args, await loadCliConfig(options), {
+        sequential: options.sequential,
+      });
       break;
     }
 
     case "status": {
-      const { db, store, config } = initializeDatabase();
+      const { db, store, config } = initializeDatabase(
+        await loadCliConfig(options),
+      );
       await statusCommand(db, store, config);
       break;
     }
 
     case "up": {
-      const { db, store, config } = initializeDatabase();
-      await upCommand(db, store, config);
+      const { db, store, config } = initializeDatabase(
+        await loadCliConfig(options),
+      );
+      await upCommand(db, store, { ...config, ...runFlags(options) });
       break;
     }
 
     case "up-by-one": {
-      const { db, store, config } = initializeDatabase();
-      await upByOneCommand(db, store, config);
+      const { db, store, config } = initializeDatabase(
+        await loadCliConfig(options),
+      );
+      await upByOneCommand(db, store, { ...config, ...runFlags(options) });
       break;
     }
 
     case "up-to": {
-      const targetVersion = process.argv[3];
-      if (!targetVersion) {
-        handleInvalidArgument(
-          "VERSION argument is required. Usage: ts-goose up-to <VERSION>",
-          { command: "up-to" },
-        );
-      }
-      try {
-        const versionBigInt = BigInt(targetVersion);
-        const { db, store, config } = initializeDatabase();
-        await upToCommand(db, store, config, versionBigInt);
-      } catch {
-        handleVersionError(targetVersion, { command: "up-to" });
-      }
+      const targetVersion = parseVersionArgument("up-to", args[0]);
+      const { db, store, config } = initializeDatabase(
+        await loadCliConfig(options),
+      );
+      await upToCommand(
+        db,
+        store,
+        { ...config, ...runFlags(options) },
+        targetVersion,
+      );
       break;
     }
 
     case "down": {
-      const { db, store, config } = initializeDatabase();
+      const { db, store, config } = initializeDatabase(
+        await loadCliConfig(options),
+      );
       await downCommand(db, store, config);
       break;
     }
 
     case "down-to": {
-      const targetVersion = process.argv[3];
-      if (!targetVersion) {
-        handleInvalidArgument(
-          "VERSION argument is required. Usage: ts-goose down-to <VERSION>",
-          { command: "down-to" },
-        );
-      }
-      try {
-        const versionBigInt = BigInt(targetVersion);
-        const { db, store, config } = initializeDatabase();
-        await downToCommand(db, store, config, versionBigInt);
-      } catch {
-        handleVersionError(targetVersion, { command: "down-to" });
-      }
+      const targetVersion = parseVersionArgument("down-to", args[0]);
+      const { db, store, config } = initializeDatabase(
+        await loadCliConfig(options),
+      );
+      await downToCommand(
+        db,
+        store,
+        { ...config, ...runFlags(options) },
+        targetVersion,
+      );
       break;
     }
 
     case "reset": {
-      const { db, store, config } = initializeDatabase();
-      await resetCommand(db, store, config);
+      const { db, store, config } = initializeDatabase(
+        await loadCliConfig(options),
+      );
+      await resetCommand(db, store, { ...config, ...runFlags(options) });
+      break;
+    }
+
+    case "redo": {
+      const { db, store, config } = initializeDatabase(
+        await loadCliConfig(options),
+      );
+      await redoCommand(db, store, config);
+      break;
+    }
+
+    case "fix": {
+      const { db, store, config } = initializeDatabase(
+        await loadCliConfig(options),
+      );
+      await fixCommand(db, store, config);
+      break;
+    }
+
+    case "repair": {
+      const { db, store, config } = initializeDatabase(
+        await loadCliConfig(options),
+      );
+      await repairCommand(db, store, config);
+      break;
+    }
+
+    case "validate": {
+      await validateCommand(await loadCliConfig(options));
       break;
     }
 
@@ -138,6 +228,9 @@ async function main() {
 
 // Execute the CLI
 main().catch((error) => {
+  if (getOutputFormat() === "json") {
+    handleError(error instanceof Error ? error : String(error));
+  }
   console.error("Unexpected error:", error);
   process.exit(1);
 });
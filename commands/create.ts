@@ -1,8 +1,16 @@
-import { DEFAULT_CONFIG } from "../config";
+import { type Config, DEFAULT_CONFIG } from "../config";
 import { handleInvalidArgument } from "../error-handler";
-import { createMigration, type MigrationType } from "../migration";
+import {
+  createMigration,
+  type MigrationType,
+  nextSequentialVersion,
+} from "../migration";
 
-export async function createCommand(args: string[]) {
+export async function createCommand(
+  args: string[],
+  config: Pick<Config, "migration_dir" | "ignore_pattern"> = DEFAULT_CONFIG,
+  options: { sequential?: boolean } = {},
+) {
   const name = args[0];
 
   // Validate name parameter
@@ -22,7 +30,15 @@ export async function createCommand(args: string[]) {
 
   const typeArg = args[1];
   const type: MigrationType = typeArg === "ts" ? "ts" : "sql";
-  const config = DEFAULT_CONFIG;
+
+  if (options.sequential) {
+    const version = await nextSequentialVersion(
+      config.migration_dir,
+      config.ignore_pattern,
+    );
+    await createMigration(name, config.migration_dir, type, version);
+    return;
+  }
 
   await createMigration(name, config.migration_dir, type);
 }
@@ -0,0 +1,37 @@
+import type { SQL } from "bun";
+import { exitSuccess, handleError } from "../error-handler";
+import { getOutputFormat, logger } from "../logger";
+import { fixMigrations } from "../migration";
+import { createProvider, type ProviderConfig } from "../provider";
+import type { Store } from "../store";
+
+export async function fixCommand(
+  db: SQL,
+  store: Store,
+  config: ProviderConfig,
+) {
+  // Applied migrations keep their timestamp so the recorded history still matches
+  const provider = createProvider({ db, store, config });
+  const status = await provider.status().catch((error) => handleError(error));
+  const applied_versions = status.migrations
+    .filter((migration) => migration.applied_at !== null)
+    .map((migration) => migration.version_id);
+
+  const renamed = await fixMigrations(
+    config.migration_dir,
+    applied_versions,
+    config.ignore_pattern,
+  ).catch((error) => handleError(error, { command: "fix" }));
+
+  if (renamed.length === 0) {
+    exitSuccess("No timestamped migrations to fix.");
+  }
+
+  for (const { from, to } of renamed) {
+    if (getOutputFormat() === "json") {
+      logger.record("rename", { from, to });
+    } else {
+      logger.info(`RENAMED ${from} => ${to}`);
+    }
+  }
+}
@@ -3,7 +3,7 @@ export function helpCommand() {
 ts-goose - A lightweight database migration tool for TypeScript and Bun
 
 USAGE:
-  ts-goose <command> [options]
+  ts-goose [flags] <command> [args] [flags]
 
 COMMANDS:
   create <name> [sql|ts]  Create a new migration file
@@ -13,16 +13,45 @@ COMMANDS:
   down                    Rollback the last migration
   down-to VERSION         Roll back to a specific VERSION
   reset                   Roll back all migrations
+  redo                    Roll back the last migration and apply it again
+  fix                     Rename unapplied timestamped migrations to
+                          sequential versions
+  repair                  Record the current checksum of applied
+                          migrations that were modified or have none
   status                  Show migration status
+  validate                Check every migration file without a database
   version                 Show version information
   help                    Show this help message
 
+FLAGS:
+  --dir DIR               Directory with migration files
+  --table NAME            Migration history table name
+  --driver DRIVER         Database driver (postgres, sqlite, mysql, mariadb)
+  --dbstring URL          Database connection string
+  --env NAME              Environment from the config file
+  --env-file PATH         Load environment variables from a file
+  --output FORMAT         Output format: text (default) or json
+  --json                  Same as --output json
+  --verbose               Print additional details
+  --sequential            Number a new migration 00001_name instead of
+                          with a timestamp (create)
+  --allow-missing         Let up, up-by-one or up-to apply migrations older
+                          than the highest applied version
+  --ignore-checksums      Let up, up-by-one or up-to run even if an applied
+                          migration was modified after it was applied
+  --dry-run               Print the migrations and SQL that up, up-to,
+                          down-to or reset would run, without running them
+  -q, --quiet             Only print errors and requested output
+  -h, --help              Show this help message
+  -v, --version           Show version information
+
 EXAMPLES:
   ts-goose create add_users_table
   ts-goose create add_indexes sql
   ts-goose up
   ts-goose up-to 1234567890123
   ts-goose status
+  ts-goose up --driver sqlite --dbstring ./app.sqlite
   ts-goose down
   ts-goose down-to 1234567890123
   ts-goose reset
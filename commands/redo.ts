@@ -0,0 +1,19 @@
+import type { SQL } from "bun";
+import { handleError } from "../error-handler";
+import { APP_NAME } from "../init";
+import { logger } from "../logger";
+import { createProvider, type ProviderConfig } from "../provider";
+import type { Store } from "../store";
+
+export async function redoCommand(
+  db: SQL,
+  store: Store,
+  config: ProviderConfig,
+) {
+  const provider = createProvider({ db, store, config });
+  const result = await provider.redo().catch((error) => handleError(error));
+
+  logger.info(
+    `${APP_NAME}: successfully migrated database to version: ${result.current_version}`,
+  );
+}
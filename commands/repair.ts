@@ -0,0 +1,28 @@
+import type { SQL } from "bun";
+import { exitSuccess, handleError } from "../error-handler";
+import { getOutputFormat, logger } from "../logger";
+import { createProvider, type ProviderConfig } from "../provider";
+import type { Store } from "../store";
+
+export async function repairCommand(
+  db: SQL,
+  store: Store,
+  config: ProviderConfig,
+) {
+  const provider = createProvider({ db, store, config });
+  const result = await provider.repair().catch((error) => handleError(error));
+
+  if (result.repaired.length === 0) {
+    exitSuccess("No checksums to repair.");
+  }
+
+  for (const repaired of result.repaired) {
+    if (getOutputFormat() === "json") {
+      logger.record("repair", repaired);
+    } else {
+      logger.info(
+        `${repaired.previous_checksum ? "REPAIRED" : "RECORDED"} ${repaired.file_name}`,
+      );
+    }
+  }
+}
@@ -1,8 +1,9 @@
 import type { SQL } from "bun";
-import { exitSuccess } from "../error-handler";
+import { exitSuccess, handleError } from "../error-handler";
 import { APP_NAME } from "../init";
-import { getMigrationVersions } from "../migration";
-import type { Store } from "../store";
+import { getLogLevel, getOutputFormat, logger } from "../logger";
+import { createProvider, type ProviderConfig } from "../provider";
+import type { Store, VersionMetadata } from "../store";
 
 function formatDate(date: Date): string {
   const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
@@ -32,40 +33,84 @@ function formatDate(date: Date): string {
   return `${dayName} ${monthName} ${day.toString().padStart(2, " ")} ${hours}:${minutes}:${seconds} ${year}`;
 }
 
+// Shown after an applied migration with --verbose
+function formatMetadata(metadata: VersionMetadata): string {
+  const details = [
+    metadata.duration_ms !== null && metadata.applied_by !== null
+      ? `${metadata.duration_ms}ms by ${metadata.applied_by}`
+      : undefined,
+    metadata.tool_version !== null
+      ? `ts-goose v${metadata.tool_version}`
+      : undefined,
+    metadata.checksum
+      ? `checksum ${metadata.checksum.slice(0, 12)}`
+      : undefined,
+  ].filter((detail) => detail !== undefined);
+  return details.length > 0 ? ` (${details.join(", ")})` : "";
+}
+
 export async function statusCommand(
   db: SQL,
   store: Store,
-  config: { migration_dir: string; table_name: string },
+  config: ProviderConfig,
 ) {
-  const migration_versions = await getMigrationVersions(config.migration_dir);
+  const provider = createProvider({ db, store, config });
+  const result = await provider.status().catch((error) => handleError(error));
+
+  if (getOutputFormat() === "json") {
+    logger.record("status", {
+      current_version: result.current_version,
+      summary: result.summary,
+      migrations: result.migrations.map((migration) => ({
+        version_id: migration.version_id,
+        file_name: migration.file_name,
+        type: migration.type,
+        applied_at: migration.applied_at,
+        state: migration.state,
+        metadata: migration.metadata ?? null,
+        modified: migration.modified,
+      })),
+    });
+    return;
+  }
 
-  if (migration_versions.length === 0) {
+  if (result.migrations.length === 0) {
     exitSuccess(
       `No migrations found, you can create one with \`${APP_NAME} create <name> [sql|ts]\``,
     );
   }
 
-  // Check if the table exists
-  const table_exists = await store.checkTableExists(db, config.table_name);
-  const versions = table_exists
-    ? await store.getVersions(db, config.table_name)
-    : [];
-
   // Print header
   console.log("Applied At                  Migration");
   console.log("========================================");
 
   // Print each migration
-  for (const migration_version of migration_versions) {
-    const applied = versions.find(
-      (version) => version.version_id === migration_version.version_id,
-    );
-
-    if (applied) {
-      const formattedDate = formatDate(applied.applied_at);
-      console.log(`${formattedDate} -- ${migration_version.file_name}`);
+  for (const migration of result.migrations) {
+    if (migration.applied_at) {
+      const formattedDate = formatDate(migration.applied_at);
+      const details =
+        getLogLevel() === "verbose" && migration.metadata
+          ? formatMetadata(migration.metadata)
+          : "";
+      const note =
+        migration.state === "orphaned"
+          ? " (orphaned, no local file)"
+          : migration.modified
+            ? " (modified after apply)"
+            : "";
+      console.log(
+        `${formattedDate} -- ${migration.file_name ?? `version ${migration.version_id}`}${note}${details}`,
+      );
     } else {
-      console.log(`Pending                  -- ${migration_version.file_name}`);
+      const label = migration.state === "missing" ? "Missing" : "Pending";
+      console.log(`${label.padEnd(24)} -- ${migration.file_name}`);
     }
   }
+
+  const { applied, pending, missing, orphaned } = result.summary;
+  console.log("");
+  console.log(
+    `Applied: ${applied}, pending: ${pending}, missing: ${missing}, orphaned: ${orphaned}`,
+  );
+  console.log(`Current version: ${result.current_version}`);
 }
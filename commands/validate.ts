@@ -0,0 +1,56 @@
+import { type Config, DEFAULT_CONFIG } from "../config";
+import {
+  ExitCode,
+  exitSuccess,
+  GooseError,
+  handleError,
+} from "../error-handler";
+import { getOutputFormat, logger } from "../logger";
+import { validateMigrations } from "../migration";
+
+export async function validateCommand(
+  config: Pick<Config, "migration_dir" | "ignore_pattern"> = DEFAULT_CONFIG,
+) {
+  const results = await validateMigrations(
+    config.migration_dir,
+    config.ignore_pattern,
+  ).catch((error) => handleError(error, { command: "validate" }));
+
+  if (results.length === 0) {
+    exitSuccess(`No migrations found in ${config.migration_dir}.`);
+  }
+
+  for (const result of results) {
+    logger.record("validation", {
+      file_name: result.file_name,
+      version_id: result.version_id,
+      outcome: result.errors.length === 0 ? "ok" : "failed",
+      errors: result.errors,
+    });
+    if (getOutputFormat() === "json") {
+      continue;
+    }
+    if (result.errors.length === 0) {
+      logger.info(`OK\t${result.file_name}`);
+      continue;
+    }
+    console.error(`FAIL\t${result.file_name}`);
+    for (const error of result.errors) {
+      console.error(`\t${error}`);
+    }
+  }
+
+  const failed = results.filter((result) => result.errors.length > 0).length;
+
+  if (failed > 0) {
+    handleError(
+      new GooseError(
+        `${failed} of ${results.length} migration files failed validation.`,
+        ExitCode.VALIDATION_ERROR,
+        { command: "validate" },
+      ),
+    );
+  }
+
+  logger.info(`All ${results.length} migration files are valid.`);
+}
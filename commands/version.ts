@@ -1,5 +1,10 @@
+import { getOutputFormat, logger } from "../logger";
 import { version } from "../package.json";
 
 export function versionCommand() {
+  if (getOutputFormat() === "json") {
+    logger.record("version", { version });
+    return;
+  }
   console.log(`ts-goose v${version}`);
 }
@@ -3,6 +3,8 @@
  * Provides standardized error messages, exit codes, and graceful shutdown.
  */
 
+import { getOutputFormat, logger, toJSONLine } from "./logger";
+
 export enum ExitCode {
   SUCCESS = 0,
   ERROR = 1,
@@ -10,6 +12,8 @@ export enum ExitCode {
   NO_MIGRATIONS = 3,
   MIGRATION_ERROR = 4,
   DATABASE_ERROR = 5,
+  LOCK_ERROR = 6,
+  VALIDATION_ERROR = 7,
 }
 
 export interface ErrorContext {
@@ -19,6 +23,15 @@ export interface ErrorContext {
   tableName?: string;
   message?: string;
   originalError?: Error;
+  // Set when a statement of a SQL migration fails; statementIndex is 0-based
+  statementIndex?: number;
+  statement?: string;
+  line?: number;
+  // Reported by the database, e.g. the SQLSTATE for PostgreSQL
+  code?: string;
+  position?: string;
+  detail?: string;
+  hint?: string;
 }
 
 export class GooseError extends Error {
@@ -59,6 +72,19 @@ export function handleError(
     message = error.message || "Unknown error occurred";
   }
 
+  if (getOutputFormat() === "json") {
+    const { originalError, ...rest } = context;
+    console.error(
+      toJSONLine({
+        event: "error",
+        exit_code: exitCode,
+        message,
+        context: { ...rest, originalError: originalError?.message },
+      }),
+    );
+    process.exit(exitCode);
+  }
+
   // Add context information to the message
   if (context.command) {
     message = `Command "${context.command}": ${message}`;
@@ -79,6 +105,25 @@ export function handleError(
   if (context.originalError && context.originalError !== error) {
     console.error(`Details: ${context.originalError.message}`);
   }
+  if (context.statementIndex !== undefined) {
+    const line = context.line ? ` (line ${context.line})` : "";
+    console.error(`Statement ${context.statementIndex + 1}${line}:`);
+    if (context.statement) {
+      console.error(context.statement.replace(/^/gm, "    "));
+    }
+  }
+  if (context.code) {
+    console.error(`Code: ${context.code}`);
+  }
+  if (context.position) {
+    console.error(`Position: ${context.position}`);
+  }
+  if (context.detail) {
+    console.error(`Detail: ${context.detail}`);
+  }
+  if (context.hint) {
+    console.error(`Hint: ${context.hint}`);
+  }
 
   process.exit(exitCode);
 }
@@ -88,7 +133,7 @@ export function handleError(
  */
 export function exitSuccess(message?: string): never {
   if (message) {
-    console.log(message);
+    logger.info(message);
   }
 
   process.exit(ExitCode.SUCCESS);
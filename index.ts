@@ -4,26 +4,76 @@
 export { createCommand } from "./commands/create";
 export { downCommand } from "./commands/down";
 export { downToCommand } from "./commands/down-to";
+export { fixCommand } from "./commands/fix";
 export { helpCommand } from "./commands/help";
+export { redoCommand } from "./commands/redo";
+export { repairCommand } from "./commands/repair";
 export { resetCommand } from "./commands/reset";
 export { statusCommand } from "./commands/status";
 export { upCommand } from "./commands/up";
 export { upByOneCommand } from "./commands/up-by-one";
 export { upToCommand } from "./commands/up-to";
+export { validateCommand } from "./commands/validate";
 export { versionCommand } from "./commands/version";
-export type { Config } from "./config";
-export { DEFAULT_CONFIG } from "./config";
+export {
+  type Config,
+  type ConfigFile,
+  DEFAULT_CONFIG,
+  defineConfig,
+  type LoadConfigOptions,
+  loadConfig,
+  loadEnvFile,
+  resolveConfig,
+  type TableFormat,
+} from "./config";
+export { type ErrorContext, ExitCode, GooseError } from "./error-handler";
 export { APP_NAME, initializeDatabase } from "./init";
 export {
+  checkDuplicateVersions,
+  clearRegisteredMigrations,
+  computeChecksum,
   createMigration,
+  findDuplicateVersions,
+  fixMigrations,
   getMigrations,
   getMigrationVersions,
+  isMigrationFile,
+  isSequentialVersion,
   type Migration,
+  type MigrationContext,
   type MigrationDirection,
+  type MigrationFn,
+  type MigrationResult,
   type MigrationType,
+  type MigrationValidation,
   type MigrationVersion,
+  nextSequentialVersion,
+  parseMigrationFileName,
+  type RegisteredMigration,
+  registerMigration,
   runMigration,
+  validateMigrations,
 } from "./migration";
+export {
+  createProvider,
+  type DownResult,
+  type MigrationState,
+  type MigrationStatus,
+  type Provider,
+  type ProviderConfig,
+  type ProviderOptions,
+  type RedoResult,
+  type RepairResult,
+  type StatusResult,
+  type UpResult,
+} from "./provider";
+export {
+  createEmbeddedSource,
+  createFileSource,
+  type EmbeddedMigration,
+  type MigrationSource,
+} from "./source";
 export type { Store } from "./store";
-export { PostgresStore } from "./store-postgres";
-export { SQLiteStore } from "./store-sqlite";
+export { MySQLGooseStore, MySQLStore } from "./store-mysql";
+export { PostgresGooseStore, PostgresStore } from "./store-postgres";
+export { SQLiteGooseStore, SQLiteStore } from "./store-sqlite";
@@ -1,23 +1,27 @@
 import { SQL } from "bun";
-import { DEFAULT_CONFIG } from "./config";
+import { type Config, DEFAULT_CONFIG } from "./config";
 import type { Store } from "./store";
-import { PostgresStore } from "./store-postgres";
-import { SQLiteStore } from "./store-sqlite";
+import { MySQLGooseStore, MySQLStore } from "./store-mysql";
+import { PostgresGooseStore, PostgresStore } from "./store-postgres";
+import { SQLiteGooseStore, SQLiteStore } from "./store-sqlite";
 
 export const APP_NAME = "ts-goose";
 
-export function initializeDatabase() {
-  const config = DEFAULT_CONFIG;
+export function initializeDatabase(config: Config = DEFAULT_CONFIG) {
+  const goose = config.table_format === "goose";
 
   let db: SQL;
   let store: Store;
 
   if (config.driver === "postgres") {
     db = new SQL(config.db_url, { adapter: "postgres" });
-    store = PostgresStore;
+    store = goose ? PostgresGooseStore : PostgresStore;
   } else if (config.driver === "sqlite") {
     db = new SQL(config.db_url, { adapter: "sqlite" });
-    store = SQLiteStore;
+    store = goose ? SQLiteGooseStore : SQLiteStore;
+  } else if (config.driver === "mysql" || config.driver === "mariadb") {
+    db = new SQL(config.db_url, { adapter: config.driver });
+    store = goose ? MySQLGooseStore : MySQLStore;
   } else {
     throw new Error(`Unsupported driver: ${config.driver}`);
   }
@@ -0,0 +1,50 @@
+import { ExitCode, GooseError } from "./error-handler";
+
+export const DEFAULT_LOCK_TIMEOUT_MS = 60_000;
+export const DEFAULT_LOCK_RETRY_INTERVAL_MS = 1_000;
+
+export type LockOptions = {
+  timeout_ms: number;
+  retry_interval_ms: number;
+};
+
+/**
+ * Releases a lock previously acquired with Store.acquireLock.
+ */
+export type ReleaseLock = () => Promise<void>;
+
+/**
+ * Derive a stable 32-bit lock key from the version table name (FNV-1a),
+ * so that tools using different version tables do not block each other.
+ */
+export function lockKey(tableName: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of `tsgoose:${tableName}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+}
+
+/**
+ * Call tryLock until it succeeds or the timeout elapses.
+ * Throws a GooseError with ExitCode.LOCK_ERROR on timeout.
+ */
+export async function pollLock(
+  tryLock: () => Promise<boolean>,
+  tableName: string,
+  options: LockOptions,
+): Promise<void> {
+  const deadline = performance.now() + options.timeout_ms;
+
+  while (!(await tryLock())) {
+    if (performance.now() + options.retry_interval_ms > deadline) {
+      throw new GooseError(
+        `Timed out after ${options.timeout_ms}ms waiting for the migration lock. Another ts-goose process may be running.`,
+        ExitCode.LOCK_ERROR,
+        { tableName },
+      );
+    }
+    await Bun.sleep(options.retry_interval_ms);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Console output shared by the CLI commands and migration runner.
+ * Errors always go to console.error; this only controls informational output.
+ */
+
+export type LogLevel = "quiet" | "normal" | "verbose";
+
+// "json" prints one JSON object per line instead of text, for scripts
+export type OutputFormat = "text" | "json";
+
+let level: LogLevel = "normal";
+let format: OutputFormat = "text";
+
+export function setLogLevel(newLevel: LogLevel) {
+  level = newLevel;
+}
+
+export function getLogLevel(): LogLevel {
+  return level;
+}
+
+export function setOutputFormat(newFormat: OutputFormat) {
+  format = newFormat;
+}
+
+export function getOutputFormat(): OutputFormat {
+  return format;
+}
+
+/**
+ * Serialize a JSON output record. Versions are bigints, which JSON has no
+ * type for, so they are written as strings.
+ */
+export function toJSONLine(record: Record<string, unknown>): string {
+  return JSON.stringify(record, (_key, value) =>
+    typeof value === "bigint" ? value.toString() : value,
+  );
+}
+
+function log(logLevel: "info" | "warn" | "debug", args: unknown[]) {
+  if (format === "json") {
+    console.log(
+      toJSONLine({ event: "log", level: logLevel, message: args.join(" ") }),
+    );
+  } else if (logLevel === "warn") {
+    console.warn(...args);
+  } else {
+    console.log(...args);
+  }
+}
+
+export const logger = {
+  // Regular progress output, hidden by --quiet
+  info: (...args: unknown[]) => {
+    if (level !== "quiet") {
+      log("info", args);
+    }
+  },
+  // Something that may need attention, on stderr and hidden by --quiet
+  warn: (...args: unknown[]) => {
+    if (level !== "quiet") {
+      log("warn", args);
+    }
+  },
+  // Extra detail, shown only with --verbose
+  debug: (...args: unknown[]) => {
+    if (level === "verbose") {
+      log("debug", args);
+    }
+  },
+  // Structured result, printed only in JSON output and never hidden by --quiet
+  record: (event: string, record: Record<string, unknown>) => {
+    if (format === "json") {
+      console.log(toJSONLine({ event, ...record }));
+    }
+  },
+};
@@ -1,9 +1,19 @@
-import { mkdir, readdir, writeFile } from "node:fs/promises";
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import { hostname, userInfo } from "node:os";
 import path from "node:path";
-import type { SQL } from "bun";
-import { handleMigrationError } from "./error-handler";
-import { DOWN_COMMENT, parseSQLFile, UP_COMMENT } from "./sql-parser";
-import type { Store } from "./store";
+import { SQL, type TransactionSQL } from "bun";
+import { type ErrorContext, ExitCode, GooseError } from "./error-handler";
+import { getOutputFormat, logger } from "./logger";
+import { version as tool_version } from "./package.json";
+import type { ProviderConfig } from "./provider";
+import {
+  DOWN_COMMENT,
+  parseSQLFile,
+  parseSqlStatements,
+  UP_COMMENT,
+  validateMigrationFile,
+} from "./sql-parser";
+import { StatementError, type Store } from "./store";
 
 export type MigrationType = "sql" | "ts";
 export type MigrationDirection = "up" | "down";
@@ -13,15 +23,48 @@ export type SQLMigration = {
   version_id: bigint;
   file_name: string;
   statements: string[];
+  // 1-based line in the file where each statement starts
+  lines: number[];
   transaction: boolean;
   direction: MigrationDirection;
+  // SHA-256 of the whole file, recorded when the migration is applied
+  checksum: string | null;
 };
 
+/**
+ * Passed to TS migrations as their second argument.
+ */
+export type MigrationContext = {
+  version_id: bigint;
+  file_name: string;
+  direction: MigrationDirection;
+  // e.g. "postgres" or "sqlite"
+  driver: string;
+  config: ProviderConfig;
+  // Prefixes output with the file name; hidden by --quiet like the OK lines
+  logger: Pick<typeof logger, "info" | "debug">;
+  // During a dry run, statements are printed instead of executed and queries
+  // return no rows
+  isDryRun: boolean;
+};
+
+// A TransactionSQL when the migration runs in a transaction, and the SQL
+// connection itself when it does not
+export type MigrationFn = (
+  tx: SQL | TransactionSQL,
+  context: MigrationContext,
+) => Promise<void>;
+
 export type TSMigration = {
   type: "ts";
   version_id: bigint;
   file_name: string;
   direction: MigrationDirection;
+  transaction: boolean;
+  // Runs the up or down function, loading it first if needed
+  run: MigrationFn;
+  // null for migrations defined in code, which have no source to hash
+  checksum: string | null;
 };
 
 export type Migration = SQLMigration | TSMigration;
@@ -32,6 +75,21 @@ export type MigrationVersion = {
   type: MigrationType;
 };
 
+export type MigrationValidation = {
+  file_name: string;
+  // null when the file name has no valid version
+  version_id: bigint | null;
+  errors: string[];
+};
+
+export type MigrationResult = {
+  version_id: bigint;
+  file_name: string;
+  type: MigrationType;
+  direction: MigrationDirection;
+  duration_ms: number;
+};
+
 export async function createFolder(folder: string = "migrations") {
   try {
     await mkdir(folder);
@@ -41,15 +99,28 @@ export async function createFolder(folder: string = "migrations") {
   }
 }
 
-// Prefix is timestamp
+// Versions below this are sequential (00001_name.sql). Timestamp versions,
+// from Date.now() or goose's YYYYMMDDHHMMSS format, are well above it.
+export const SEQUENTIAL_VERSION_LIMIT = 1_000_000_000n;
+const SEQUENTIAL_VERSION_WIDTH = 5;
+
+export function isSequentialVersion(version_id: bigint): boolean {
+  return version_id < SEQUENTIAL_VERSION_LIMIT;
+}
+
+export function formatVersion(version_id: bigint): string {
+  return version_id.toString().padStart(SEQUENTIAL_VERSION_WIDTH, "0");
+}
+
+// Prefix is a timestamp unless a sequential version is given
 export const createMigration = async (
   name: string = "new",
   folder: string = "migrations",
   type: MigrationType = "sql",
+  version_id: bigint = BigInt(Date.now()),
 ) => {
   await createFolder(folder);
-  const timestamp = Date.now();
-  const migration_file_name = `${timestamp}_${name}.${type}`;
+  const migration_file_name = `${formatVersion(version_id)}_${name}.${type}`;
   const migration_path = path.join(folder, migration_file_name);
   if (type === "sql") {
     await writeFile(migration_path, `${UP_COMMENT}\n\n${DOWN_COMMENT}`);
@@ -67,15 +138,130 @@ export const down = async (tx: TransactionSQL) => {
 };`,
     );
   }
-  console.log(`Migration created: ${migration_path}`);
+  logger.info(`Migration created: ${migration_path}`);
 };
 
+// <version>_<name>.<sql|ts>, where the name may itself contain dots. Version 0
+// is not allowed: the goose table format uses it as a sentinel row.
+const MIGRATION_FILE_NAME = /^(\d*[1-9]\d*)_(.+)\.(sql|ts)$/;
+
+// TypeScript files that can live next to migrations but are never migrations
+const EXCLUDED_SUFFIXES = [".d.ts", ".test.ts", ".spec.ts"];
+
 /**
- * Get the migration versions from the folder.
+ * Whether a file in the migration folder should be treated as a migration.
+ * Files other than .sql/.ts, hidden files, files starting with "_",
+ * declaration and test files, and files matching the ignore glob are skipped.
  */
-export async function getMigrationVersions(
-  folder: string = "migrations",
-): Promise<MigrationVersion[]> {
+export function isMigrationFile(
+  file_name: string,
+  ignore_pattern?: string,
+): boolean {
+  if (file_name.startsWith(".") || file_name.startsWith("_")) {
+    return false;
+  }
+
+  if (EXCLUDED_SUFFIXES.some((suffix) => file_name.endsWith(suffix))) {
+    return false;
+  }
+
+  const extension = path.extname(file_name);
+  if (extension !== ".sql" && extension !== ".ts") {
+    return false;
+  }
+
+  return !ignore_pattern || !new Bun.Glob(ignore_pattern).match(file_name);
+}
+
+export type RegisteredMigration = {
+  // Used in the reported file name, e.g. 00003_<name>.ts
+  name?: string;
+  up?: MigrationFn;
+  down?: MigrationFn;
+  // Defaults to true
+  transaction?: boolean;
+};
+
+const registeredMigrations = new Map<
+  bigint,
+  { file_name: string; migration: RegisteredMigration }
+>();
+
+/**
+ * Register a TS migration in code, like goose's AddMigrationContext.
+ * Registered migrations are listed together with the files in the migration
+ * directory; a file with the same version is an error.
+ */
+export function registerMigration(
+  version: bigint | number,
+  migration: RegisteredMigration,
+): void {
+  const version_id = BigInt(version);
+  if (version_id <= 0n) {
+    throw new GooseError(
+      `Invalid registered migration: version must be a positive integer`,
+      ExitCode.INVALID_ARGUMENT,
+      { version: version_id },
+    );
+  }
+
+  const existing = registeredMigrations.get(version_id);
+  if (existing) {
+    throw new GooseError(
+      `Migration version ${version_id} is already registered as ${existing.file_name}`,
+      ExitCode.INVALID_ARGUMENT,
+      { version: version_id },
+    );
+  }
+
+  registeredMigrations.set(version_id, {
+    file_name: `${formatVersion(version_id)}_${migration.name ?? "registered"}.ts`,
+    migration,
+  });
+}
+
+/**
+ * Remove every registered migration.
+ */
+export function clearRegisteredMigrations(): void {
+  registeredMigrations.clear();
+}
+
+function getRegisteredVersions(): MigrationVersion[] {
+  return [...registeredMigrations].map(([version_id, { file_name }]) => ({
+    version_id,
+    file_name,
+    type: "ts",
+  }));
+}
+
+/**
+ * Parse the version and type from a migration file name.
+ * Throws if the file name is not a valid migration file name.
+ */
+export function parseMigrationFileName(file_name: string): MigrationVersion {
+  const match = MIGRATION_FILE_NAME.exec(file_name);
+
+  if (!match?.[1]) {
+    const prefix = file_name.split("_")[0];
+    throw new Error(
+      prefix && prefix !== file_name
+        ? `Invalid migration file: ${file_name} - "${prefix}" is not a valid version number`
+        : `Invalid migration file: ${file_name} - expected <version>_<name>.sql or <version>_<name>.ts`,
+    );
+  }
+
+  return {
+    version_id: BigInt(match[1]),
+    file_name,
+    type: match[3] as MigrationType,
+  };
+}
+
+async function readMigrationFileNames(
+  folder: string,
+  ignore_pattern?: string,
+): Promise<string[]> {
   let file_names: string[] = [];
   try {
     file_names = await readdir(folder);
@@ -83,41 +269,370 @@ export async function getMigrationVersions(
     file_names = [];
   }
 
+  return file_names
+    .filter((file_name) => isMigrationFile(file_name, ignore_pattern))
+    .sort();
+}
+
+/**
+ * Get the migration versions from the folder.
+ */
+export async function getMigrationVersions(
+  folder: string = "migrations",
+  ignore_pattern?: string,
+): Promise<MigrationVersion[]> {
+  const file_names = await readMigrationFileNames(folder, ignore_pattern);
+  const file_versions = file_names.map((file_name) => {
+    try {
+      return parseMigrationFileName(file_name);
+    } catch (error) {
+      throw fileError(error, file_name, ExitCode.ERROR);
+    }
+  });
+
+  for (const version of file_versions) {
+    const registered = registeredMigrations.get(version.version_id);
+    if (registered) {
+      throw new GooseError(
+        `Migration version ${version.version_id} is registered in code as ${registered.file_name} and also defined by file ${version.file_name}`,
+        ExitCode.ERROR,
+        { version: version.version_id },
+      );
+    }
+  }
+
+  const versions = [...file_versions, ...getRegisteredVersions()];
+
+  // Sort by oldest to newest
+  versions.sort((a, b) =>
+    a.version_id < b.version_id ? -1 : a.version_id > b.version_id ? 1 : 0,
+  );
+
+  checkDuplicateVersions(versions);
+
+  return versions;
+}
+
+/**
+ * Group migration files that share a version. Returns an empty array when
+ * every version is unique.
+ */
+export function findDuplicateVersions(
+  versions: MigrationVersion[],
+): { version_id: bigint; file_names: string[] }[] {
+  const files_by_version = new Map<bigint, string[]>();
+  for (const version of versions) {
+    const file_names = files_by_version.get(version.version_id) ?? [];
+    file_names.push(version.file_name);
+    files_by_version.set(version.version_id, file_names);
+  }
+
+  return [...files_by_version]
+    .filter(([, file_names]) => file_names.length > 1)
+    .map(([version_id, file_names]) => ({ version_id, file_names }));
+}
+
+/**
+ * Throw a GooseError listing the files of every duplicated version, since
+ * only one of them would ever be run or rolled back.
+ */
+export function checkDuplicateVersions(versions: MigrationVersion[]): void {
+  const duplicates = findDuplicateVersions(versions);
+  if (duplicates.length === 0) {
+    return;
+  }
+
+  throw new GooseError(
+    `Duplicate migration versions found:\n${duplicates.map((d) => `  ${d.version_id}: ${d.file_names.join(", ")}`).join("\n")}`,
+    ExitCode.ERROR,
+  );
+}
+
+/**
+ * Check every file in the folder without a database: file names, duplicate
+ * versions, both directions of SQL migrations and the exports of TS migrations.
+ * Returns one entry per file, sorted by version; files with errors failed.
+ */
+export async function validateMigrations(
+  folder: string = "migrations",
+  ignore_pattern?: string,
+): Promise<MigrationValidation[]> {
+  const file_names = await readMigrationFileNames(folder, ignore_pattern);
+  const results: MigrationValidation[] = [];
   const versions: MigrationVersion[] = [];
 
   for (const file_name of file_names) {
-    const prefix = file_name.split("_")[0];
+    let version: MigrationVersion;
+    try {
+      version = parseMigrationFileName(file_name);
+    } catch (error) {
+      results.push({
+        file_name,
+        version_id: null,
+        errors: [error instanceof Error ? error.message : String(error)],
+      });
+      continue;
+    }
+
+    versions.push(version);
+    results.push({
+      file_name,
+      version_id: version.version_id,
+      errors: await validateMigration(folder, version),
+    });
+  }
 
-    if (!prefix) {
-      throw new Error(`Invalid migration file: ${file_name}`);
+  for (const duplicate of findDuplicateVersions(versions)) {
+    for (const result of results) {
+      if (result.version_id === duplicate.version_id) {
+        result.errors.unshift(
+          `Duplicate version ${duplicate.version_id}: ${duplicate.file_names.join(", ")}`,
+        );
+      }
     }
+  }
 
-    let version_id: bigint;
+  // Sort by version, malformed file names first
+  results.sort((a, b) => {
+    const x = a.version_id ?? -1n;
+    const y = b.version_id ?? -1n;
+    return x < y ? -1 : x > y ? 1 : 0;
+  });
+
+  return results;
+}
+
+async function validateMigration(
+  folder: string,
+  version: MigrationVersion,
+): Promise<string[]> {
+  const errors: string[] = [];
+  const file_path = path.resolve(folder, version.file_name);
+
+  if (version.type === "sql") {
+    const content = await readFile(file_path, "utf8");
     try {
-      version_id = BigInt(prefix);
-    } catch {
-      throw new Error(`Invalid migration file: ${file_name} - "${prefix}" is not a valid version number`);
+      validateMigrationFile(content);
+    } catch (error) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+    for (const direction of ["up", "down"] as const) {
+      try {
+        parseSqlStatements(content, direction);
+      } catch (error) {
+        errors.push(
+          `${direction}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return errors;
+  }
+
+  let file: Record<string, unknown>;
+  try {
+    file = await import(file_path);
+  } catch (error) {
+    return [
+      `Cannot import migration: ${error instanceof Error ? error.message : String(error)}`,
+    ];
+  }
+  for (const direction of ["up", "down"] as const) {
+    if (typeof file[direction] !== "function") {
+      errors.push(`Missing exported "${direction}" function`);
+    }
+  }
+  if (file.transaction !== undefined && typeof file.transaction !== "boolean") {
+    errors.push(`Exported "transaction" must be a boolean`);
+  }
+  return errors;
+}
+
+/**
+ * The version following the highest sequential version in the folder.
+ */
+export async function nextSequentialVersion(
+  folder: string = "migrations",
+  ignore_pattern?: string,
+): Promise<bigint> {
+  const versions = await getMigrationVersions(folder, ignore_pattern);
+  const last = versions.findLast((v) => isSequentialVersion(v.version_id));
+  return (last?.version_id ?? 0n) + 1n;
+}
+
+/**
+ * Rename timestamped migrations that have not been applied into sequential
+ * versions following the highest sequential version, keeping their order.
+ * Returns the renamed files.
+ */
+export async function fixMigrations(
+  folder: string = "migrations",
+  applied_versions: bigint[] = [],
+  ignore_pattern?: string,
+): Promise<{ from: string; to: string }[]> {
+  const versions = await getMigrationVersions(folder, ignore_pattern);
+  let next_version = await nextSequentialVersion(folder, ignore_pattern);
+  const renamed: { from: string; to: string }[] = [];
+
+  for (const version of versions) {
+    if (
+      isSequentialVersion(version.version_id) ||
+      applied_versions.includes(version.version_id) ||
+      registeredMigrations.has(version.version_id)
+    ) {
+      continue;
     }
 
-    const extension = file_name.split(".")[1];
+    const prefix = version.file_name.split("_")[0] ?? "";
+    const to = `${formatVersion(next_version)}${version.file_name.slice(prefix.length)}`;
+    await rename(path.join(folder, version.file_name), path.join(folder, to));
+    renamed.push({ from: version.file_name, to });
+    next_version++;
+  }
+
+  return renamed;
+}
+
+/**
+ * SHA-256 of a migration's source, as a hex string.
+ */
+export function computeChecksum(content: string): string {
+  return new Bun.CryptoHasher("sha256").update(content).digest("hex");
+}
+
+async function checksumFile(folder: string, file_name: string) {
+  return computeChecksum(await readFile(path.join(folder, file_name), "utf8"));
+}
 
-    if (extension !== "sql" && extension !== "ts") {
-      throw new Error(`Invalid migration file: ${file_name}`);
+/**
+ * Current checksums of migrations in a directory, keyed by version.
+ * Registered migrations have no file and map to null.
+ */
+export async function readChecksums(
+  folder: string,
+  versions: { version_id: bigint; file_name: string }[],
+): Promise<Map<bigint, string | null>> {
+  const checksums = new Map<bigint, string | null>();
+  for (const version of versions) {
+    const registered = registeredMigrations.get(version.version_id);
+    if (registered && registered.file_name === version.file_name) {
+      checksums.set(version.version_id, null);
+      continue;
     }
+    try {
+      checksums.set(
+        version.version_id,
+        await checksumFile(folder, version.file_name),
+      );
+    } catch (error) {
+      throw fileError(error, version.file_name, ExitCode.ERROR, {
+        version: version.version_id,
+      });
+    }
+  }
+  return checksums;
+}
 
-    versions.push({
-      version_id,
-      file_name,
-      type: extension as MigrationType,
-    });
+// Recorded with each applied version
+function appliedBy(): string {
+  if (process.env.TSGOOSE_APPLIED_BY) {
+    return process.env.TSGOOSE_APPLIED_BY;
   }
+  try {
+    return `${userInfo().username}@${hostname()}`;
+  } catch {
+    // userInfo throws when the user has no passwd entry, e.g. in containers
+    return hostname();
+  }
+}
 
-  // Sort by oldest to newest
-  versions.sort((a, b) =>
-    a.version_id < b.version_id ? -1 : a.version_id > b.version_id ? 1 : 0,
+async function loadMigrationFile(
+  folder: string,
+  version: { version_id: bigint; file_name: string },
+  direction: MigrationDirection,
+): Promise<Migration> {
+  const extension = path.extname(version.file_name);
+
+  if (extension === ".sql") {
+    const { statements, lines, transaction } = await parseSQLFile(
+      direction,
+      folder,
+      version,
+    );
+    return {
+      direction,
+      version_id: version.version_id,
+      file_name: version.file_name,
+      type: "sql",
+      statements,
+      lines,
+      transaction,
+      checksum: await checksumFile(folder, version.file_name),
+    };
+  }
+
+  if (extension === ".ts") {
+    const file = await importTSMigration(folder, version, direction);
+    return {
+      version_id: version.version_id,
+      file_name: version.file_name,
+      type: "ts",
+      direction,
+      // `export const transaction = false` opts out, like -- +goose NO TRANSACTION
+      transaction: file.transaction !== false,
+      checksum: await checksumFile(folder, version.file_name),
+      run: async (tx, context) => {
+        await file[direction](tx, context);
+      },
+    };
+  }
+
+  throw new Error(`Invalid migration file: ${version.file_name}`);
+}
+
+/**
+ * Report a failure reading or parsing a migration file as a GooseError that
+ * names the file. GooseErrors are passed through.
+ */
+function fileError(
+  error: unknown,
+  file_name: string,
+  exitCode: ExitCode,
+  context: ErrorContext = {},
+): GooseError {
+  if (error instanceof GooseError) {
+    return error;
+  }
+  return new GooseError(
+    error instanceof Error ? error.message : "Unknown error",
+    exitCode,
+    {
+      ...context,
+      fileName: file_name,
+      originalError: error instanceof Error ? error : undefined,
+    },
   );
+}
 
-  return versions;
+async function importTSMigration(
+  folder: string,
+  version: { version_id: bigint; file_name: string },
+  direction: MigrationDirection,
+) {
+  const absolutePath = path.resolve(folder, version.file_name);
+  try {
+    return await import(absolutePath);
+  } catch (error) {
+    throw new GooseError(
+      `Error loading migration ${version.file_name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      ExitCode.MIGRATION_ERROR,
+      {
+        command: direction,
+        fileName: version.file_name,
+        version: version.version_id,
+        originalError: error instanceof Error ? error : undefined,
+      },
+    );
+  }
 }
 
 export async function getMigrations(
@@ -128,33 +643,32 @@ export async function getMigrations(
   const migrations: Migration[] = [];
 
   for (const version of versions) {
-    // Check the file type
-    const extension = version.file_name.split(".")[1];
-    if (extension !== "sql" && extension !== "ts") {
-      throw new Error(`Invalid migration file: ${version.file_name}`);
-    }
-
-    if (extension === "sql") {
-      const { statements, transaction } = await parseSQLFile(
-        direction,
-        folder,
-        version,
-      );
-
-      migrations.push({
-        direction,
-        version_id: version.version_id,
-        file_name: version.file_name,
-        type: "sql",
-        statements,
-        transaction,
-      });
-    } else if (extension === "ts") {
+    const registered = registeredMigrations.get(version.version_id);
+    if (registered && registered.file_name === version.file_name) {
+      const fn = registered.migration[direction];
       migrations.push({
         version_id: version.version_id,
         file_name: version.file_name,
         type: "ts",
         direction,
+        transaction: registered.migration.transaction ?? true,
+        checksum: null,
+        run: async (tx, context) => {
+          if (!fn) {
+            throw new Error(`Migration has no ${direction} function`);
+          }
+          await fn(tx, context);
+        },
+      });
+      continue;
+    }
+
+    try {
+      migrations.push(await loadMigrationFile(folder, version, direction));
+    } catch (error) {
+      throw fileError(error, version.file_name, ExitCode.MIGRATION_ERROR, {
+        command: direction,
+        version: version.version_id,
       });
     }
   }
@@ -162,62 +676,271 @@ export async function getMigrations(
   return migrations;
 }
 
+function createMigrationContext(
+  db: SQL,
+  config: ProviderConfig,
+  migration: Migration,
+): MigrationContext {
+  const prefix = `[${migration.file_name}]`;
+  return {
+    version_id: migration.version_id,
+    file_name: migration.file_name,
+    direction: migration.direction,
+    driver: config.driver ?? db.options?.adapter ?? "unknown",
+    config,
+    logger: {
+      info: (...args) => logger.info(prefix, ...args),
+      debug: (...args) => logger.debug(prefix, ...args),
+    },
+    isDryRun: config.dry_run ?? false,
+  };
+}
+
+// Stands in for the connection during a dry run, recording each statement
+// instead of executing it
+function createRecordingSQL(record: (statement: string) => void) {
+  const run = (statement: string) => {
+    record(statement);
+    return Promise.resolve([]);
+  };
+  const sql = (strings: TemplateStringsArray | string) =>
+    run(
+      typeof strings === "string"
+        ? strings
+        : strings.reduce((query, part, i) => `${query}$${i}${part}`),
+    );
+  // Only the parts of SQL that migrations commonly use are implemented
+  const recording = Object.assign(sql, {
+    unsafe: run,
+    begin: (fn: (tx: SQL) => Promise<unknown>) => fn(recording),
+    savepoint: (fn: (tx: SQL) => Promise<unknown>) => fn(recording),
+  }) as unknown as SQL;
+  return recording;
+}
+
+/**
+ * Run a single migration and record its version.
+ * Throws a GooseError with ExitCode.MIGRATION_ERROR if the migration fails.
+ */
 export async function runMigration(
   db: SQL,
   store: Store,
-  config: { table_name: string; migration_dir: string },
+  config: ProviderConfig,
   migration: Migration,
-) {
+): Promise<MigrationResult> {
   const start_time = performance.now();
-  try {
-    if (migration.type === "sql") {
-      await runSQLMigration(db, store, migration);
-    } else if (migration.type === "ts") {
-      await runTSMigration(db, migration, config);
-    }
 
-    // Version tracking should only happen after successful migration
+  // Version tracking runs inside the migration's transaction when it has one
+  const recordVersion = async (tx: SQL) => {
     if (migration.direction === "up") {
-      await store.insertVersion(db, config.table_name, migration.version_id);
+      await store.insertVersion(tx, config.table_name, migration.version_id, {
+        file_name: migration.file_name,
+        checksum: migration.checksum,
+        duration_ms: Math.round(performance.now() - start_time),
+        applied_by: appliedBy(),
+        tool_version,
+      });
     } else if (migration.direction === "down") {
-      await store.deleteVersion(db, config.table_name, migration.version_id);
+      await store.deleteVersion(tx, config.table_name, migration.version_id);
     }
+  };
 
-    console.log(
-      `OK\t${migration.file_name} (${(performance.now() - start_time).toFixed(2)}ms)`,
-    );
+  warnTransaction(store, migration);
+  logger.debug(
+    migration.type === "sql"
+      ? `Running ${migration.direction} ${migration.file_name} (${migration.statements.length} statements, ${migration.transaction ? "in a transaction" : "no transaction"})`
+      : `Running ${migration.direction} ${migration.file_name} (${migration.transaction ? "in a transaction" : "no transaction"})`,
+  );
+
+  try {
+    if (migration.type === "sql") {
+      await runSQLMigration(db, store, migration, recordVersion);
+    } else if (migration.type === "ts") {
+      await runTSMigration(
+        db,
+        migration,
+        createMigrationContext(db, config, migration),
+        recordVersion,
+      );
+    }
   } catch (error) {
+    logger.record("migration", {
+      ...migrationSummary(migration),
+      duration_ms: performance.now() - start_time,
+      outcome: "failed",
+    });
     const errorMessage = `Error running ${migration.direction} migration ${migration.file_name}: ${error instanceof Error ? error.message : "Unknown error"}`;
-    handleMigrationError(errorMessage, {
+    throw new GooseError(errorMessage, ExitCode.MIGRATION_ERROR, {
       command: migration.direction,
       fileName: migration.file_name,
       version: migration.version_id,
       originalError: error instanceof Error ? error : undefined,
+      ...statementErrorContext(migration, error),
+    });
+  }
+
+  const duration_ms = performance.now() - start_time;
+  if (getOutputFormat() === "json") {
+    logger.record("migration", {
+      ...migrationSummary(migration),
+      duration_ms,
+      outcome: migration.direction === "up" ? "applied" : "rolled_back",
     });
+  } else {
+    logger.info(`OK\t${migration.file_name} (${duration_ms.toFixed(2)}ms)`);
+  }
+
+  return { ...migrationSummary(migration), duration_ms };
+}
+
+// Shown before a migration runs, and in its dry run
+function warnTransaction(store: Store, migration: Migration) {
+  const warning =
+    migration.type === "sql" &&
+    migration.transaction &&
+    store.transactionWarning?.(migration.statements);
+  if (warning) {
+    logger.warn(warning);
+  }
+}
+
+function migrationSummary(migration: Migration) {
+  return {
+    version_id: migration.version_id,
+    file_name: migration.file_name,
+    type: migration.type,
+    direction: migration.direction,
+  };
+}
+
+/**
+ * Locate the failing statement of a SQL migration and collect the error
+ * fields reported by the driver.
+ */
+function statementErrorContext(
+  migration: Migration,
+  error: unknown,
+): ErrorContext {
+  if (migration.type !== "sql" || !(error instanceof StatementError)) {
+    return {};
   }
+
+  const context: ErrorContext = {
+    statementIndex: error.statement_index,
+    statement: error.statement.split("\n").slice(0, 3).join("\n"),
+    line: migration.lines[error.statement_index],
+  };
+
+  const cause = error.cause;
+  if (cause instanceof SQL.PostgresError) {
+    // errno holds the SQLSTATE, code is Bun's generic error code
+    context.code = cause.errno ?? cause.code;
+    context.position = cause.position;
+    context.detail = cause.detail;
+    context.hint = cause.hint;
+  } else if (cause instanceof SQL.SQLError && "code" in cause) {
+    context.code = String(cause.code);
+  }
+
+  return context;
 }
 
-async function runSQLMigration(db: SQL, store: Store, migration: SQLMigration) {
-  if (migration.statements.length > 0) {
-    await store.runMigration(db, migration.statements, migration.transaction);
+/**
+ * Print what runMigration would do, without executing the migration or
+ * recording its version. TS migrations are called with a connection that
+ * prints their statements instead of executing them.
+ */
+export async function printMigration(
+  db: SQL,
+  store: Store,
+  config: ProviderConfig,
+  migration: Migration,
+): Promise<MigrationResult> {
+  // JSON output collects the statements into a single record instead
+  const json = getOutputFormat() === "json";
+  const statements: string[] = [];
+  const printStatement = (statement: string) => {
+    statements.push(statement);
+    if (!json) {
+      logger.info(statement.replace(/^/gm, "    "));
+    }
+  };
+  let stopped: string | undefined;
+
+  if (migration.type === "sql") {
+    if (!json) {
+      logger.info(
+        `[dry-run] ${migration.direction} ${migration.file_name} (${migration.statements.length} statements, ${migration.transaction ? "in a transaction" : "no transaction"})`,
+      );
+    }
+    warnTransaction(store, migration);
+    migration.statements.forEach(printStatement);
+  } else {
+    if (!json) {
+      logger.info(
+        `[dry-run] ${migration.direction} ${migration.file_name} (${migration.transaction ? "in a transaction" : "no transaction"})`,
+      );
+    }
+    try {
+      await migration.run(
+        createRecordingSQL(printStatement),
+        createMigrationContext(db, { ...config, dry_run: true }, migration),
+      );
+    } catch (error) {
+      // The migration may depend on query results, which are empty here
+      stopped = error instanceof Error ? error.message : "Unknown error";
+      if (!json) {
+        logger.info(`    -- dry run stopped: ${stopped}`);
+      }
+    }
   }
+
+  logger.record("migration", {
+    ...migrationSummary(migration),
+    duration_ms: 0,
+    outcome: "dry_run",
+    transaction: migration.transaction,
+    statements,
+    stopped,
+  });
+
+  return { ...migrationSummary(migration), duration_ms: 0 };
+}
+
+async function runSQLMigration(
+  db: SQL,
+  store: Store,
+  migration: SQLMigration,
+  recordVersion: (tx: SQL) => Promise<void>,
+) {
+  if (migration.statements.length === 0) {
+    await recordVersion(db);
+    return;
+  }
+
+  await store.runMigration(
+    db,
+    migration.statements,
+    migration.transaction,
+    recordVersion,
+  );
 }
 
 async function runTSMigration(
   db: SQL,
   migration: TSMigration,
-  config: { migration_dir: string },
+  context: MigrationContext,
+  recordVersion: (tx: SQL) => Promise<void>,
 ) {
-  // import the file and run the up and down functions
-  const absolutePath = path.resolve(config.migration_dir, migration.file_name);
-  const file = await import(absolutePath);
-  if (migration.direction === "up") {
-    await db.begin(async (tx) => {
-      await file.up(tx);
-    });
-  } else if (migration.direction === "down") {
-    await db.begin(async (tx) => {
-      await file.down(tx);
-    });
+  if (!migration.transaction) {
+    // Non-transactional migrations receive the connection itself
+    await migration.run(db, context);
+    await recordVersion(db);
+    return;
   }
+
+  await db.begin(async (tx) => {
+    await migration.run(tx, context);
+    await recordVersion(tx);
+  });
 }
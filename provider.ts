@@ -0,0 +1,799 @@
+import type { SQL } from "bun";
+import { ExitCode, GooseError } from "./error-handler";
+import {
+  DEFAULT_LOCK_RETRY_INTERVAL_MS,
+  DEFAULT_LOCK_TIMEOUT_MS,
+  type LockOptions,
+} from "./lock";
+import { logger } from "./logger";
+import {
+  type Migration,
+  type MigrationResult,
+  type MigrationType,
+  type MigrationVersion,
+  printMigration,
+  runMigration,
+} from "./migration";
+import { createFileSource, type MigrationSource } from "./source";
+import type { AppliedVersion, Store, VersionMetadata } from "./store";
+
+/**
+ * Programmatic migration API.
+ * Unlike the CLI commands, provider methods never exit the process: they
+ * return structured results and throw GooseError on failure.
+ */
+
+export type ProviderConfig = {
+  migration_dir: string;
+  table_name: string;
+  lock_timeout_ms?: number;
+  lock_retry_interval_ms?: number;
+  // Print the planned migrations instead of running them
+  dry_run?: boolean;
+  // Apply migrations older than the highest applied version instead of failing
+  allow_missing?: boolean;
+  // Apply migrations even if an applied one was modified after it was applied
+  ignore_checksums?: boolean;
+  // Glob of file names in migration_dir that are not migrations
+  ignore_pattern?: string;
+  // Passed to TS migrations; defaults to the adapter of the connection
+  driver?: string;
+};
+
+export interface ProviderOptions {
+  db: SQL;
+  store: Store;
+  config: ProviderConfig;
+  // Defaults to the files in config.migration_dir
+  source?: MigrationSource;
+}
+
+export type UpResult = {
+  table_created: boolean;
+  applied: MigrationResult[];
+  current_version: bigint;
+};
+
+export type DownResult = {
+  rolled_back: MigrationResult[];
+  // Applied versions that have no local migration file
+  skipped: bigint[];
+  current_version: bigint;
+};
+
+export type RedoResult = {
+  rolled_back: MigrationResult[];
+  applied: MigrationResult[];
+  current_version: bigint;
+};
+
+// "missing" is a pending migration older than the highest applied version,
+// "orphaned" an applied version with no local migration
+export type MigrationState = "applied" | "pending" | "missing" | "orphaned";
+
+export type MigrationStatus = {
+  version_id: bigint;
+  // For orphaned versions, the file name recorded when it was applied, if any
+  file_name: string | null;
+  type: MigrationType | null;
+  state: MigrationState;
+  applied_at: Date | null;
+  // What was recorded when the migration was applied, if anything
+  metadata?: VersionMetadata;
+  // The file no longer matches the checksum recorded when it was applied
+  modified: boolean;
+};
+
+export type StatusResult = {
+  // Local migrations and orphaned versions, in version order
+  migrations: MigrationStatus[];
+  // Number of migrations in each state
+  summary: Record<MigrationState, number>;
+  current_version: bigint;
+};
+
+export type RepairResult = {
+  // Applied migrations whose checksum was recorded; previous_checksum is
+  // null for migrations that had none
+  repaired: {
+    version_id: bigint;
+    file_name: string;
+    checksum: string;
+    previous_checksum: string | null;
+  }[];
+};
+
+export interface Provider {
+  up: () => Promise<UpResult>;
+  upByOne: () => Promise<UpResult>;
+  upTo: (targetVersion: bigint) => Promise<UpResult>;
+  down: () => Promise<DownResult>;
+  downTo: (targetVersion: bigint) => Promise<DownResult>;
+  reset: () => Promise<DownResult>;
+  redo: () => Promise<RedoResult>;
+  status: () => Promise<StatusResult>;
+  repair: () => Promise<RepairResult>;
+}
+
+function latestVersion(
+  versions: AppliedVersion[],
+  rolled_back: MigrationResult[] = [],
+): bigint {
+  const remaining = versions.filter(
+    (v) => !rolled_back.some((r) => r.version_id === v.version_id),
+  );
+  return remaining[remaining.length - 1]?.version_id ?? 0n;
+}
+
+// Local migrations that were never applied but are older than the highest
+// applied version, typically after merging a long-lived branch
+function findMissing(
+  migration_versions: MigrationVersion[],
+  versions: AppliedVersion[],
+): MigrationVersion[] {
+  const max_version = versions.reduce(
+    (max, v) => (v.version_id > max ? v.version_id : max),
+    0n,
+  );
+  return migration_versions.filter(
+    (mv) =>
+      mv.version_id < max_version &&
+      !versions.some((v) => v.version_id === mv.version_id),
+  );
+}
+
+// Applied migrations whose current checksum differs from the recorded one.
+// Nothing can be compared without both checksums, as for migrations defined
+// in code or applied before checksums were recorded.
+function findModified(
+  migration_versions: MigrationVersion[],
+  versions: AppliedVersion[],
+  checksums: Map<bigint, string | null>,
+): { migration_version: MigrationVersion; checksum: string }[] {
+  return migration_versions.flatMap((mv) => {
+    const recorded = versions.find((v) => v.version_id === mv.version_id)
+      ?.metadata?.checksum;
+    const checksum = checksums.get(mv.version_id);
+    return recorded && checksum && recorded !== checksum
+      ? [{ migration_version: mv, checksum }]
+      : [];
+  });
+}
+
+// The built-in sources name the failing file in their GooseErrors; anything
+// else a source throws is reported as a GooseError too
+function checkedSource(source: MigrationSource): MigrationSource {
+  const check =
+    <A extends unknown[], R>(operation: (...args: A) => Promise<R>) =>
+    async (...args: A): Promise<R> => {
+      try {
+        return await operation(...args);
+      } catch (error) {
+        if (error instanceof GooseError) {
+          throw error;
+        }
+        throw new GooseError(
+          `Cannot read migrations: ${error instanceof Error ? error.message : "Unknown error"}`,
+          ExitCode.ERROR,
+          { originalError: error instanceof Error ? error : undefined },
+        );
+      }
+    };
+  return {
+    listMigrations: check(source.listMigrations),
+    loadMigrations: check(source.loadMigrations),
+    readChecksums: check(source.readChecksums),
+  };
+}
+
+export function createProvider({
+  db,
+  store,
+  config,
+  source: migrationSource = createFileSource(
+    config.migration_dir,
+    config.ignore_pattern,
+  ),
+}: ProviderOptions): Provider {
+  const source = checkedSource(migrationSource);
+  const lockOptions: LockOptions = {
+    timeout_ms: config.lock_timeout_ms ?? DEFAULT_LOCK_TIMEOUT_MS,
+    retry_interval_ms:
+      config.lock_retry_interval_ms ?? DEFAULT_LOCK_RETRY_INTERVAL_MS,
+  };
+
+  // Failures taking the lock or reading or creating the version table, such
+  // as a lost connection or missing privileges, are reported as database errors
+  const withDatabaseError = async <T>(operation: () => Promise<T>) => {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof GooseError) {
+        throw error;
+      }
+      throw new GooseError(
+        `Cannot access table ${config.table_name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        ExitCode.DATABASE_ERROR,
+        {
+          tableName: config.table_name,
+          originalError: error instanceof Error ? error : undefined,
+        },
+      );
+    }
+  };
+
+  // Hold the store lock while a mutating operation runs, releasing it on error.
+  // A dry run changes nothing, so it does not take the lock.
+  const withLock =
+    <A extends unknown[], R>(operation: (...args: A) => Promise<R>) =>
+    async (...args: A): Promise<R> => {
+      if (config.dry_run) {
+        return operation(...args);
+      }
+      const release = await withDatabaseError(() =>
+        store.acquireLock(db, config.table_name, lockOptions),
+      );
+      let result: R;
+      try {
+        result = await operation(...args);
+      } catch (error) {
+        // A failed release, such as after a lost connection, must not hide
+        // why the operation failed
+        await release().catch(() => {});
+        throw error;
+      }
+      await withDatabaseError(release);
+      return result;
+    };
+
+  const getVersions = () =>
+    withDatabaseError(() => store.getVersions(db, config.table_name));
+
+  // A table created under the old dotted name is moved into place first.
+  // Only commands holding the lock move it: status and dry runs report it.
+  const checkTable = async (command: string, move: boolean) => {
+    if (
+      await withDatabaseError(() =>
+        store.checkTableExists(db, config.table_name),
+      )
+    ) {
+      return true;
+    }
+    const { hasLegacyTable, moveLegacyTable } = store;
+    if (
+      !hasLegacyTable ||
+      !moveLegacyTable ||
+      !(await withDatabaseError(() => hasLegacyTable(db, config.table_name)))
+    ) {
+      return false;
+    }
+    if (!move) {
+      throw new GooseError(
+        `Table "${config.table_name}" was created by an earlier version of ts-goose and must be moved to its schema-qualified name. It is moved by the next command that changes the database, such as "ts-goose up".`,
+        ExitCode.ERROR,
+        { command, tableName: config.table_name },
+      );
+    }
+    const moved_to = await withDatabaseError(() =>
+      moveLegacyTable(db, config.table_name),
+    );
+    logger.info(`Moved table "${config.table_name}" to ${moved_to}.`);
+    return true;
+  };
+
+  // Every migration records its metadata, so a table created by an earlier
+  // version gets the new columns before any command changes it
+  const upgradeTable = async () => {
+    const { upgradeTable } = store;
+    if (!config.dry_run && upgradeTable) {
+      await withDatabaseError(() => upgradeTable(db, config.table_name));
+    }
+  };
+
+  const ensureTable = async (command: string) => {
+    const table_exists = await checkTable(command, !config.dry_run);
+    if (table_exists) {
+      await upgradeTable();
+    } else if (config.dry_run) {
+      logger.info(`Table ${config.table_name} would be created.`);
+    } else {
+      await withDatabaseError(() => store.createTable(db, config.table_name));
+      // Logged here so that it comes before the migrations' output
+      logger.info(`Table ${config.table_name} created.`);
+    }
+    return !table_exists;
+  };
+
+  // In a dry run a table that would have been created does not exist yet
+  const getAppliedVersions = async (
+    table_created: boolean,
+  ): Promise<AppliedVersion[]> => {
+    if (table_created && config.dry_run) {
+      return [];
+    }
+    return getVersions();
+  };
+
+  const execute = (migration: Migration) =>
+    config.dry_run
+      ? printMigration(db, store, config, migration)
+      : runMigration(db, store, config, migration);
+
+  const requireTable = async (command: string) => {
+    const table_exists = await checkTable(command, !config.dry_run);
+    if (!table_exists) {
+      throw new GooseError(
+        `Table ${config.table_name} does not exist.`,
+        ExitCode.ERROR,
+        { command, tableName: config.table_name },
+      );
+    }
+    await upgradeTable();
+  };
+
+  const checkMissing = (
+    command: string,
+    migration_versions: MigrationVersion[],
+    versions: AppliedVersion[],
+  ) => {
+    if (config.allow_missing) {
+      return;
+    }
+
+    const missing = findMissing(migration_versions, versions);
+    if (missing.length > 0) {
+      throw new GooseError(
+        `Found ${missing.length} missing migration(s) older than the highest applied version:\n${missing.map((mv) => `  ${mv.file_name}`).join("\n")}\nUse --allow-missing to apply them.`,
+        ExitCode.ERROR,
+        { command },
+      );
+    }
+  };
+
+  const readChecksums = (
+    migration_versions: MigrationVersion[],
+    versions: AppliedVersion[],
+  ) =>
+    source.readChecksums(
+      migration_versions.filter((mv) =>
+        versions.some((v) => v.version_id === mv.version_id),
+      ),
+    );
+
+  const checkModified = async (
+    command: string,
+    migration_versions: MigrationVersion[],
+    versions: AppliedVersion[],
+  ) => {
+    if (config.ignore_checksums) {
+      return;
+    }
+
+    const modified = findModified(
+      migration_versions,
+      versions,
+      await readChecksums(migration_versions, versions),
+    );
+    if (modified.length > 0) {
+      throw new GooseError(
+        `Found ${modified.length} migration(s) modified after they were applied:\n${modified.map(({ migration_version }) => `  ${migration_version.file_name}`).join("\n")}\nRun "ts-goose repair" to record their current checksums, or use --ignore-checksums.`,
+        ExitCode.ERROR,
+        { command },
+      );
+    }
+  };
+
+  const applyAll = async (pending: MigrationVersion[]) => {
+    const applied: MigrationResult[] = [];
+    const up_migrations = await source.loadMigrations(pending, "up");
+    for (const migration of up_migrations) {
+      applied.push(await execute(migration));
+    }
+    return applied;
+  };
+
+  // Roll back the given applied versions, newest first
+  const rollbackAll = async (
+    to_rollback: AppliedVersion[],
+    migration_versions: MigrationVersion[],
+  ) => {
+    const rolled_back: MigrationResult[] = [];
+    const skipped: bigint[] = [];
+
+    for (let i = to_rollback.length - 1; i >= 0; i--) {
+      const version = to_rollback[i];
+
+      if (!version) {
+        continue;
+      }
+
+      const migration_version = migration_versions.find(
+        (mv) => mv.version_id === version.version_id,
+      );
+
+      if (!migration_version) {
+        skipped.push(version.version_id);
+        continue;
+      }
+
+      const [migration] = await source.loadMigrations(
+        [migration_version],
+        "down",
+      );
+
+      if (!migration) {
+        skipped.push(version.version_id);
+        continue;
+      }
+
+      rolled_back.push(await execute(migration));
+    }
+
+    return { rolled_back, skipped };
+  };
+
+  const up = async (): Promise<UpResult> => {
+    const table_created = await ensureTable("up");
+    const migration_versions = await source.listMigrations();
+    const versions = await getAppliedVersions(table_created);
+    checkMissing("up", migration_versions, versions);
+    await checkModified("up", migration_versions, versions);
+
+    const unapplied_versions = migration_versions.filter(
+      (version) => !versions.some((v) => v.version_id === version.version_id),
+    );
+
+    const applied = await applyAll(unapplied_versions);
+
+    return {
+      table_created,
+      applied,
+      current_version:
+        applied[applied.length - 1]?.version_id ?? latestVersion(versions),
+    };
+  };
+
+  const upByOne = async (): Promise<UpResult> => {
+    const table_created = await ensureTable("up-by-one");
+    const migration_versions = await source.listMigrations();
+    const versions = await getAppliedVersions(table_created);
+    checkMissing("up-by-one", migration_versions, versions);
+    await checkModified("up-by-one", migration_versions, versions);
+
+    const first_unapplied_version = migration_versions.find(
+      (version) => !versions.some((v) => v.version_id === version.version_id),
+    );
+
+    const applied = first_unapplied_version
+      ? await applyAll([first_unapplied_version])
+      : [];
+
+    return {
+      table_created,
+      applied,
+      current_version:
+        applied[applied.length - 1]?.version_id ?? latestVersion(versions),
+    };
+  };
+
+  const upTo = async (targetVersion: bigint): Promise<UpResult> => {
+    const table_created = await ensureTable("up-to");
+    const migration_versions = await source.listMigrations();
+    const versions = await getAppliedVersions(table_created);
+    checkMissing("up-to", migration_versions, versions);
+    await checkModified("up-to", migration_versions, versions);
+
+    const target_migration = migration_versions.find(
+      (mv) => mv.version_id === targetVersion,
+    );
+
+    if (!target_migration) {
+      throw new GooseError(
+        `Migration version ${targetVersion} not found.`,
+        ExitCode.ERROR,
+        { command: "up-to", version: targetVersion },
+      );
+    }
+
+    const current_version = latestVersion(versions);
+
+    if (current_version === targetVersion) {
+      return { table_created, applied: [], current_version };
+    }
+
+    if (current_version > targetVersion) {
+      throw new GooseError(
+        `Current version ${current_version} is higher than target version ${targetVersion}. Use "down-to" command to rollback to an earlier version.`,
+        ExitCode.ERROR,
+        { command: "up-to", version: targetVersion },
+      );
+    }
+
+    // Get all unapplied migrations up to and including the target
+    const unapplied_versions = migration_versions.filter(
+      (version) =>
+        !versions.some((v) => v.version_id === version.version_id) &&
+        version.version_id <= targetVersion,
+    );
+
+    const applied = await applyAll(unapplied_versions);
+
+    return {
+      table_created,
+      applied,
+      current_version:
+        applied[applied.length - 1]?.version_id ?? current_version,
+    };
+  };
+
+  const down = async (): Promise<DownResult> => {
+    await requireTable("down");
+    const migration_versions = await source.listMigrations();
+    const versions = await getVersions();
+
+    const last_version = versions[versions.length - 1];
+
+    if (!last_version) {
+      throw new GooseError("No migrations found", ExitCode.NO_MIGRATIONS, {
+        command: "down",
+      });
+    }
+
+    const migration_version = migration_versions.find(
+      (version) => version.version_id === last_version.version_id,
+    );
+
+    if (!migration_version) {
+      throw new GooseError("No migrations found", ExitCode.NO_MIGRATIONS, {
+        command: "down",
+        version: last_version.version_id,
+      });
+    }
+
+    const { rolled_back } = await rollbackAll(
+      [last_version],
+      migration_versions,
+    );
+
+    return {
+      rolled_back,
+      skipped: [],
+      current_version: latestVersion(versions, rolled_back),
+    };
+  };
+
+  // Roll back the latest applied migration and apply it again
+  const redo = async (): Promise<RedoResult> => {
+    await requireTable("redo");
+    const migration_versions = await source.listMigrations();
+    const versions = await getVersions();
+
+    const last_version = versions[versions.length - 1];
+
+    if (!last_version) {
+      throw new GooseError("No migrations found", ExitCode.NO_MIGRATIONS, {
+        command: "redo",
+      });
+    }
+
+    const migration_version = migration_versions.find(
+      (version) => version.version_id === last_version.version_id,
+    );
+
+    if (!migration_version) {
+      throw new GooseError(
+        `No local migration file found for version ${last_version.version_id}. Cannot redo.`,
+        ExitCode.NO_MIGRATIONS,
+        { command: "redo", version: last_version.version_id },
+      );
+    }
+
+    const { rolled_back } = await rollbackAll(
+      [last_version],
+      migration_versions,
+    );
+    const applied = await applyAll([migration_version]);
+
+    return {
+      rolled_back,
+      applied,
+      current_version: last_version.version_id,
+    };
+  };
+
+  const reset = async (): Promise<DownResult> => {
+    await requireTable("reset");
+    const migration_versions = await source.listMigrations();
+    const versions = await getVersions();
+
+    const { rolled_back, skipped } = await rollbackAll(
+      versions,
+      migration_versions,
+    );
+
+    return {
+      rolled_back,
+      skipped,
+      current_version: latestVersion(versions, rolled_back),
+    };
+  };
+
+  const downTo = async (targetVersion: bigint): Promise<DownResult> => {
+    if (targetVersion === 0n) {
+      return reset();
+    }
+
+    await requireTable("down-to");
+    const migration_versions = await source.listMigrations();
+    const versions = await getVersions();
+
+    const current_version = latestVersion(versions);
+
+    if (versions.length === 0 || current_version === targetVersion) {
+      return { rolled_back: [], skipped: [], current_version };
+    }
+
+    if (current_version < targetVersion) {
+      throw new GooseError(
+        `Current version ${current_version} is lower than target version ${targetVersion}. Use "up-to" command to migrate to a later version.`,
+        ExitCode.ERROR,
+        { command: "down-to", version: targetVersion },
+      );
+    }
+
+    const target_migration = migration_versions.find(
+      (mv) => mv.version_id === targetVersion,
+    );
+
+    if (!target_migration) {
+      throw new GooseError(
+        `Migration version ${targetVersion} not found.`,
+        ExitCode.ERROR,
+        { command: "down-to", version: targetVersion },
+      );
+    }
+
+    const target_applied = versions.find((v) => v.version_id === targetVersion);
+
+    if (!target_applied) {
+      throw new GooseError(
+        `Target version ${targetVersion} has not been applied. Cannot rollback to an unapplied version.`,
+        ExitCode.ERROR,
+        { command: "down-to", version: targetVersion },
+      );
+    }
+
+    const { rolled_back, skipped } = await rollbackAll(
+      versions.filter((v) => v.version_id > targetVersion),
+      migration_versions,
+    );
+
+    return {
+      rolled_back,
+      skipped,
+      current_version: latestVersion(versions, rolled_back),
+    };
+  };
+
+  const status = async (): Promise<StatusResult> => {
+    const migration_versions = await source.listMigrations();
+    const table_exists = await checkTable("status", false);
+    const versions = table_exists ? await getVersions() : [];
+    const missing = findMissing(migration_versions, versions);
+    const modified = findModified(
+      migration_versions,
+      versions,
+      await readChecksums(migration_versions, versions),
+    );
+
+    const local: MigrationStatus[] = migration_versions.map(
+      (migration_version) => {
+        const applied = versions.find(
+          (version) => version.version_id === migration_version.version_id,
+        );
+        return {
+          version_id: migration_version.version_id,
+          file_name: migration_version.file_name,
+          type: migration_version.type,
+          state: applied
+            ? "applied"
+            : missing.includes(migration_version)
+              ? "missing"
+              : "pending",
+          applied_at: applied?.applied_at ?? null,
+          metadata: applied?.metadata,
+          modified: modified.some(
+            (m) =>
+              m.migration_version.version_id === migration_version.version_id,
+          ),
+        };
+      },
+    );
+
+    const orphaned: MigrationStatus[] = versions
+      .filter(
+        (version) =>
+          !migration_versions.some(
+            (mv) => mv.version_id === version.version_id,
+          ),
+      )
+      .map((version) => ({
+        version_id: version.version_id,
+        file_name: version.metadata?.file_name ?? null,
+        type: null,
+        state: "orphaned",
+        applied_at: version.applied_at,
+        metadata: version.metadata,
+        modified: false,
+      }));
+
+    const migrations = [...local, ...orphaned].sort((a, b) =>
+      a.version_id < b.version_id ? -1 : a.version_id > b.version_id ? 1 : 0,
+    );
+    const summary = { applied: 0, pending: 0, missing: 0, orphaned: 0 };
+    for (const migration of migrations) {
+      summary[migration.state]++;
+    }
+
+    return { migrations, summary, current_version: latestVersion(versions) };
+  };
+
+  // Record the current checksum of modified migrations, accepting the change,
+  // and of applied migrations that have none, so that they are checked too
+  const repair = async (): Promise<RepairResult> => {
+    const { updateChecksum } = store;
+    if (!updateChecksum) {
+      throw new GooseError(
+        `Table ${config.table_name} does not record checksums.`,
+        ExitCode.ERROR,
+        { command: "repair", tableName: config.table_name },
+      );
+    }
+
+    await requireTable("repair");
+    const migration_versions = await source.listMigrations();
+    const versions = await getVersions();
+    const checksums = await readChecksums(migration_versions, versions);
+
+    const repaired: RepairResult["repaired"] = [];
+    for (const migration_version of migration_versions) {
+      const version = versions.find(
+        (v) => v.version_id === migration_version.version_id,
+      );
+      const checksum = checksums.get(migration_version.version_id);
+      const previous_checksum = version?.metadata?.checksum ?? null;
+      if (!version || !checksum || checksum === previous_checksum) {
+        continue;
+      }
+      await withDatabaseError(() =>
+        updateChecksum(
+          db,
+          config.table_name,
+          migration_version.version_id,
+          migration_version.file_name,
+          checksum,
+        ),
+      );
+      repaired.push({
+        version_id: migration_version.version_id,
+        file_name: migration_version.file_name,
+        checksum,
+        previous_checksum,
+      });
+    }
+
+    return { repaired };
+  };
+
+  return {
+    up: withLock(up),
+    upByOne: withLock(upByOne),
+    upTo: withLock(upTo),
+    down: withLock(down),
+    downTo: withLock(downTo),
+    reset: withLock(reset),
+    redo: withLock(redo),
+    status,
+    repair: withLock(repair),
+  };
+}
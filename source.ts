@@ -0,0 +1,161 @@
+import { ExitCode, GooseError } from "./error-handler";
+import {
+  checkDuplicateVersions,
+  computeChecksum,
+  formatVersion,
+  getMigrations,
+  getMigrationVersions,
+  type Migration,
+  type MigrationDirection,
+  type MigrationFn,
+  type MigrationVersion,
+  readChecksums,
+} from "./migration";
+import { parseSqlStatements } from "./sql-parser";
+
+/**
+ * Where the provider finds migrations: the migration directory by default,
+ * or a registry compiled into the application.
+ */
+export interface MigrationSource {
+  // Available migrations, sorted by version
+  listMigrations: () => Promise<MigrationVersion[]>;
+  loadMigrations: (
+    versions: MigrationVersion[],
+    direction: MigrationDirection,
+  ) => Promise<Migration[]>;
+  // Current checksum of each migration's source, null when it has none
+  readChecksums: (
+    versions: MigrationVersion[],
+  ) => Promise<Map<bigint, string | null>>;
+}
+
+/**
+ * Read migrations from a directory, importing TS migrations when they are loaded.
+ */
+export function createFileSource(
+  folder: string,
+  ignore_pattern?: string,
+): MigrationSource {
+  return {
+    listMigrations: () => getMigrationVersions(folder, ignore_pattern),
+    loadMigrations: (versions, direction) =>
+      getMigrations(folder, versions, direction),
+    readChecksums: (versions) => readChecksums(folder, versions),
+  };
+}
+
+/**
+ * A migration registered in code: either the up/down functions of a TS
+ * migration, or the content of a SQL migration file, e.g. imported with
+ * `import sql from "./00001_users.sql" with { type: "text" }`.
+ */
+export type EmbeddedMigration = {
+  version: bigint | number;
+  name: string;
+} & (
+  | { up: MigrationFn; down?: MigrationFn; transaction?: boolean; sql?: never }
+  | { sql: string; up?: never; down?: never; transaction?: never }
+);
+
+/**
+ * Serve migrations from an explicit registry instead of the filesystem, so
+ * they can be bundled into a `bun build --compile` binary.
+ * Each migration gets the file name it would have on disk, e.g. 00001_users.sql.
+ */
+export function createEmbeddedSource(
+  migrations: EmbeddedMigration[],
+): MigrationSource {
+  const entries = migrations.map((migration) => {
+    const version_id = BigInt(migration.version);
+    if (version_id <= 0n) {
+      throw new GooseError(
+        `Invalid embedded migration "${migration.name}": version must be a positive integer`,
+        ExitCode.INVALID_ARGUMENT,
+        { version: version_id },
+      );
+    }
+
+    const type = migration.sql === undefined ? "ts" : "sql";
+    const file_name = `${formatVersion(version_id)}_${migration.name}.${type}`;
+    return {
+      version: { version_id, file_name, type } as MigrationVersion,
+      migration,
+    };
+  });
+
+  entries.sort((a, b) =>
+    a.version.version_id < b.version.version_id
+      ? -1
+      : a.version.version_id > b.version.version_id
+        ? 1
+        : 0,
+  );
+
+  const versions = entries.map((entry) => entry.version);
+  checkDuplicateVersions(versions);
+
+  const load = (
+    version: MigrationVersion,
+    direction: MigrationDirection,
+  ): Migration => {
+    const entry = entries.find(
+      (e) => e.version.version_id === version.version_id,
+    );
+    if (!entry) {
+      throw new Error(`Invalid migration file: ${version.file_name}`);
+    }
+
+    const { migration } = entry;
+    if (migration.sql !== undefined) {
+      const { statements, lines, transaction } = parseSqlStatements(
+        migration.sql,
+        direction,
+      );
+      return {
+        type: "sql",
+        version_id: version.version_id,
+        file_name: version.file_name,
+        direction,
+        statements,
+        lines,
+        transaction,
+        checksum: computeChecksum(migration.sql),
+      };
+    }
+
+    const fn = migration[direction];
+    return {
+      type: "ts",
+      version_id: version.version_id,
+      file_name: version.file_name,
+      direction,
+      transaction: migration.transaction ?? true,
+      checksum: null,
+      run: async (tx, context) => {
+        if (!fn) {
+          throw new Error(`Migration has no ${direction} function`);
+        }
+        await fn(tx, context);
+      },
+    };
+  };
+
+  return {
+    listMigrations: async () => versions,
+    loadMigrations: async (requested, direction) =>
+      requested.map((version) => load(version, direction)),
+    readChecksums: async (requested) =>
+      new Map(
+        requested.map((version) => {
+          const sql = entries.find(
+            (e) => e.version.version_id === version.version_id,
+          )?.migration.sql;
+          return [
+            version.version_id,
+            sql === undefined ? null : computeChecksum(sql),
+          ];
+        }),
+      ),
+  };
+}
@@ -5,7 +5,8 @@ import type { MigrationDirection } from "./migration";
 /**
  * Goose-compatible SQL parser (TypeScript).
  * - Same public API and return shape as your original.
- * - Handles semicolons inside strings/identifiers/dollar-quoted bodies/comments.
+ * - Handles semicolons inside strings/identifiers/dollar-quoted bodies/comments,
+ *   including MySQL backtick-quoted identifiers.
  * - Supports goose annotations (case-insensitive):
  *   Up, Down, StatementBegin, StatementEnd, NO TRANSACTION, ENVSUB ON/OFF.
  * - Preserves your behavior for files without Up/Down markers.
@@ -23,6 +24,8 @@ enum ParserState {
 
 interface ParseResult {
   statements: string[];
+  // 1-based line in the file where each statement starts
+  lines: number[];
   transaction: boolean;
 }
 
@@ -224,15 +227,30 @@ export function parseSqlStatements(
   const hasDown = /(^|\n)--\s*\+goose\s+down\s*$/im.test(content);
 
   let section = content;
+  let sectionLine = 0; // lines in the file before the section
   if (hasUp || hasDown) {
+    const marker = direction === "up" ? UP_COMMENT : DOWN_COMMENT;
     if (direction === "up")
       section = extractUpSection(content, UP_COMMENT, DOWN_COMMENT);
     else if (direction === "down")
       section = extractDownSection(content, DOWN_COMMENT, UP_COMMENT);
     else throw new Error(`Invalid direction: ${direction}`);
+    const markerIdx = content.search(
+      new RegExp(`^${escapeRe(marker)}\\s*$`, "im"),
+    );
+    const sectionIdx = content.indexOf(section, Math.max(markerIdx, 0));
+    sectionLine =
+      content.slice(0, Math.max(sectionIdx, 0)).split("\n").length - 1;
   }
 
   const statements: string[] = [];
+  const statementLines: number[] = [];
+  let lineNo = 0; // 1-based line in the file being scanned
+  let startLine = 0; // line where the buffered statement starts
+  const pushStatement = (stmt: string) => {
+    statements.push(stmt);
+    statementLines.push(startLine);
+  };
   let state: ParserState = ParserState.NORMAL;
   let buf = "";
   let haveBegunStatement = false; // once true, we preserve inline comments until statement ends
@@ -241,7 +259,7 @@ export function parseSqlStatements(
   const flushIfNonEmpty = (forceSemi = true) => {
     const stmt = buf.trim();
     if (stmt && !isCommentOnly(stmt)) {
-      statements.push(forceSemi ? ensureTrailingSemicolon(stmt) : stmt);
+      pushStatement(forceSemi ? ensureTrailingSemicolon(stmt) : stmt);
     }
     buf = "";
     haveBegunStatement = false;
@@ -250,6 +268,7 @@ export function parseSqlStatements(
   // Tokenizer flags for safe semicolon detection
   let inSQ = false; // single-quoted string
   let inDQ = false; // double-quoted identifier
+  let inBT = false; // backtick-quoted identifier (MySQL)
   let inLine = false; // -- comment (until \n)
   let inBlock = false; // /* ... */
   let dollarTag: string | null = null; // $tag$ ... $tag$
@@ -260,7 +279,8 @@ export function parseSqlStatements(
 
   function maybeEndStatementOnSemicolon(ch: string): boolean {
     if (ch !== ";") return false;
-    if (inSQ || inDQ || inLine || inBlock || dollarTag !== null) return false;
+    if (inSQ || inDQ || inBT || inLine || inBlock || dollarTag !== null)
+      return false;
     // Only split on semicolon in NORMAL mode (not in a StatementBegin block)
     if (state !== ParserState.NORMAL) return false;
     return true;
@@ -357,6 +377,7 @@ export function parseSqlStatements(
     haveBegunStatement = true;
 
     if (state === ParserState.IN_BLOCK) {
+      if (!buf.trim() && line.trim()) startLine = lineNo;
       buf += `${line}\n`;
       return;
     }
@@ -371,6 +392,7 @@ export function parseSqlStatements(
       if (
         !inSQ &&
         !inDQ &&
+        !inBT &&
         !inBlock &&
         dollarTag === null &&
         ch === "-" &&
@@ -383,6 +405,7 @@ export function parseSqlStatements(
       if (
         !inSQ &&
         !inDQ &&
+        !inBT &&
         !inLine &&
         dollarTag === null &&
         ch === "/" &&
@@ -397,7 +420,7 @@ export function parseSqlStatements(
       }
 
       // Dollar-quoted strings: $tag$ ... $tag$
-      if (!inSQ && !inDQ && !inLine && !inBlock) {
+      if (!inSQ && !inDQ && !inBT && !inLine && !inBlock) {
         if (dollarTag === null && ch === "$") {
           // capture $[tag]$
           const m = /^\$([A-Za-z0-9_]*)\$/u.exec(line.slice(i));
@@ -419,8 +442,23 @@ export function parseSqlStatements(
         }
       }
 
+      // Backtick-quoted identifier (MySQL)
+      if (!inSQ && !inDQ && !inLine && !inBlock && dollarTag === null) {
+        if (!inBT && ch === "`") {
+          inBT = true;
+        } else if (inBT && ch === "`") {
+          // escaped `` => stay inside if doubled
+          if (next === "`") {
+            buf += "``";
+            i += 2;
+            continue;
+          }
+          inBT = false;
+        }
+      }
+
       // Double-quoted identifier
-      if (!inSQ && !inLine && !inBlock && dollarTag === null) {
+      if (!inSQ && !inBT && !inLine && !inBlock && dollarTag === null) {
         if (!inDQ && ch === '"') {
           inDQ = true;
         } else if (inDQ && ch === '"') {
@@ -435,7 +473,7 @@ export function parseSqlStatements(
       }
 
       // Single-quoted string
-      if (!inDQ && !inLine && !inBlock && dollarTag === null) {
+      if (!inDQ && !inBT && !inLine && !inBlock && dollarTag === null) {
         if (!inSQ && ch === "'") {
           inSQ = true;
         } else if (inSQ && ch === "'") {
@@ -454,7 +492,7 @@ export function parseSqlStatements(
         buf += ch;
         // If there's a trailing comment on this line, we still include it (goose looks at words only for ;)
         // but the statement is considered done now.
-        statements.push(ensureTrailingSemicolon(buf.trim()));
+        pushStatement(ensureTrailingSemicolon(buf.trim()));
         buf = "";
         haveBegunStatement = false;
         // everything after ; belongs to next statement => continue scanning
@@ -462,6 +500,7 @@ export function parseSqlStatements(
         continue;
       }
 
+      if (!buf.trim() && ch.trim()) startLine = lineNo;
       buf += ch;
       i++;
     }
@@ -471,7 +510,10 @@ export function parseSqlStatements(
     buf += "\n";
   }
 
-  for (const line of lines) scanLine(line);
+  for (const [index, line] of lines.entries()) {
+    lineNo = sectionLine + index + 1;
+    scanLine(line);
+  }
 
   // End-of-file: unclosed block?
   const finalState = state as ParserState;
@@ -483,28 +525,55 @@ export function parseSqlStatements(
 
   // Flush any remaining buffered content (keep your previous behavior: append ; if needed)
   if (buf.trim() && !isCommentOnly(buf)) {
-    statements.push(ensureTrailingSemicolon(buf));
+    pushStatement(ensureTrailingSemicolon(buf));
   }
 
   // Remove NO TRANSACTION/ENVSUB directives if they got into statement buffers accidentally
-  const filtered = statements
-    .map((s) =>
-      s
-        .split("\n")
-        .filter(
-          (ln) =>
-            !isGooseAnn(ln, "NO TRANSACTION") &&
-            !isGooseAnn(ln, "ENVSUB ON") &&
-            !isGooseAnn(ln, "ENVSUB OFF") &&
-            !isGooseAnn(ln, "STATEMENTBEGIN") &&
-            !isGooseAnn(ln, "STATEMENTEND"),
-        )
-        .join("\n")
-        .trim(),
-    )
-    .filter((s) => s.length > 0);
-
-  return { statements: filtered, transaction };
+  const cleaned = statements.map((s) =>
+    s
+      .split("\n")
+      .filter(
+        (ln) =>
+          !isGooseAnn(ln, "NO TRANSACTION") &&
+          !isGooseAnn(ln, "ENVSUB ON") &&
+          !isGooseAnn(ln, "ENVSUB OFF") &&
+          !isGooseAnn(ln, "STATEMENTBEGIN") &&
+          !isGooseAnn(ln, "STATEMENTEND"),
+      )
+      .join("\n")
+      .trim(),
+  );
+  const kept = cleaned
+    .map((statement, index) => ({
+      statement,
+      line: statementLines[index] ?? 0,
+    }))
+    .filter(({ statement }) => statement.length > 0);
+
+  return {
+    statements: kept.map(({ statement }) => statement),
+    lines: kept.map(({ line }) => line),
+    transaction,
+  };
+}
+
+const IMPLICIT_COMMIT_RE =
+  /^(create|alter|drop|rename|truncate|lock\s+tables|unlock\s+tables)\b/i;
+
+/**
+ * Find statements that MySQL/MariaDB commit implicitly (DDL and table locks).
+ * Inside a transactional migration these cannot be rolled back.
+ */
+export function findImplicitCommitStatements(statements: string[]): string[] {
+  return statements.filter((statement) => {
+    const body = statement
+      .replace(/\/\*[\s\S]*?\*\//g, "")
+      .split("\n")
+      .map((l) => l.trim())
+      .filter((l) => l.length > 0 && !l.startsWith("--"))
+      .join(" ");
+    return IMPLICIT_COMMIT_RE.test(body);
+  });
 }
 
 function escapeRe(s: string): string {
@@ -0,0 +1,279 @@
+import type { SQL } from "bun";
+import { splitTableName } from "./config";
+import { type LockOptions, lockKey, pollLock, type ReleaseLock } from "./lock";
+import { findImplicitCommitStatements } from "./sql-parser";
+import {
+  type AppliedVersion,
+  METADATA_COLUMNS,
+  quoteIdentifier,
+  quoteTableName,
+  readVersionMetadata,
+  runStatements,
+  type Store,
+  type VersionMetadata,
+  versionRow,
+} from "./store";
+
+// Unqualified names are looked up in the connection's current database
+const tableExists = async (
+  db: SQL,
+  schema: string | undefined,
+  table: string,
+) => {
+  const rows = await db.unsafe(
+    `select 1 from information_schema.tables
+     where table_schema = coalesce(?, database()) and table_name = ?`,
+    [schema ?? null, table],
+  );
+  return rows.length > 0;
+};
+
+const checkTableExists = (db: SQL, tableName: string) => {
+  const { schema, table } = splitTableName(tableName);
+  return tableExists(db, schema, table);
+};
+
+// A MySQL schema is a database
+const createSchema = async (db: SQL, tableName: string) => {
+  const { schema } = splitTableName(tableName);
+  if (schema) {
+    await db.unsafe(
+      `create database if not exists ${quoteIdentifier(schema, "`")}`,
+    );
+  }
+};
+
+const createTable = async (db: SQL, tableName: string) => {
+  await createSchema(db, tableName);
+  await db.unsafe(`create table if not exists ${quoteTableName(tableName, "`")} (
+        id bigint unsigned not null auto_increment primary key,
+        version_id bigint not null,
+        applied_at timestamp not null default current_timestamp,
+        ${Object.entries(METADATA_COLUMNS)
+          .map(([column, type]) => `${column} ${type}`)
+          .join(",\n        ")}
+    )`);
+};
+
+// MySQL has no "add column if not exists", so compare with the catalog
+const upgradeTable = async (db: SQL, tableName: string) => {
+  const { schema, table } = splitTableName(tableName);
+  const rows = await db.unsafe<{ column_name: string }[]>(
+    `select column_name as column_name from information_schema.columns
+     where table_schema = coalesce(?, database()) and table_name = ?`,
+    [schema ?? null, table],
+  );
+  const existing = new Set(rows.map((row) => row.column_name));
+  for (const [column, type] of Object.entries(METADATA_COLUMNS)) {
+    if (!existing.has(column)) {
+      await db.unsafe(
+        `alter table ${quoteTableName(tableName, "`")} add column ${column} ${type}`,
+      );
+    }
+  }
+};
+
+// select * also reads tables that have not been upgraded yet
+const getVersions = async (
+  db: SQL,
+  tableName: string,
+): Promise<AppliedVersion[]> => {
+  // applied_at only has second precision, so break ties by insertion order
+  const result = await db.unsafe<
+    ({ version_id: bigint; applied_at: Date } & Record<string, unknown>)[]
+  >(
+    `select * from ${quoteTableName(tableName, "`")} order by applied_at asc, id asc`,
+  );
+  return result.map((row) => ({
+    version_id: BigInt(row.version_id),
+    applied_at: new Date(row.applied_at),
+    metadata: readVersionMetadata(row),
+  }));
+};
+
+const insertVersion = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+  metadata?: VersionMetadata,
+) => {
+  const { columns, values } = versionRow(version, metadata);
+  await db.unsafe(
+    `insert into ${quoteTableName(tableName, "`")} (${columns.join(", ")}) values (${columns.map(() => "?").join(", ")})`,
+    values,
+  );
+};
+
+const deleteVersion = async (db: SQL, tableName: string, version: bigint) => {
+  await db.unsafe(
+    `delete from ${quoteTableName(tableName, "`")} where version_id = ?`,
+    [version],
+  );
+};
+
+const updateChecksum = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+  file_name: string,
+  checksum: string,
+) => {
+  await db.unsafe(
+    `update ${quoteTableName(tableName, "`")} set checksum = ?, file_name = coalesce(file_name, ?) where version_id = ?`,
+    [checksum, file_name, version],
+  );
+};
+
+// MySQL commits DDL implicitly, so a failure part-way through cannot be
+// rolled back even though the migration runs in a transaction
+const transactionWarning = (statements: string[]) => {
+  const [ddl] = findImplicitCommitStatements(statements);
+  return ddl
+    ? `Warning: MySQL commits DDL implicitly and this migration cannot be fully rolled back on failure (${ddl.split("\n")[0]}). Consider adding "-- +goose NO TRANSACTION".`
+    : undefined;
+};
+
+const runMigration = async (
+  db: SQL,
+  statements: string[],
+  transaction: boolean,
+  recordVersion: (tx: SQL) => Promise<void>,
+) => {
+  if (transaction) {
+    await db.begin(async (tx) => {
+      await runStatements(tx, statements);
+      await recordVersion(tx);
+    });
+    return;
+  }
+
+  await runStatements(db, statements);
+  await recordVersion(db);
+};
+
+const hasLegacyTable = async (db: SQL, tableName: string) =>
+  splitTableName(tableName).schema !== undefined &&
+  tableExists(db, undefined, tableName);
+
+const moveLegacyTable = async (db: SQL, tableName: string) => {
+  const table = quoteTableName(tableName, "`");
+  await createSchema(db, tableName);
+  await db.unsafe(
+    `rename table ${quoteIdentifier(tableName, "`")} to ${table}`,
+  );
+  return table;
+};
+
+// Named locks belong to a session, so lock and unlock on a reserved connection
+const acquireLock = async (
+  db: SQL,
+  tableName: string,
+  options: LockOptions,
+): Promise<ReleaseLock> => {
+  const name = `tsgoose_${lockKey(tableName)}`;
+  const connection = await db.reserve();
+
+  try {
+    await pollLock(
+      async () => {
+        const [row] = await connection<{ locked: number | null }[]>`
+          select get_lock(${name}, 0) as locked`;
+        return Number(row?.locked) === 1;
+      },
+      tableName,
+      options,
+    );
+  } catch (error) {
+    connection.release();
+    throw error;
+  }
+
+  return async () => {
+    try {
+      await connection`select release_lock(${name})`;
+    } finally {
+      connection.release();
+    }
+  };
+};
+
+export const MySQLStore: Store = {
+  checkTableExists,
+  createTable,
+  upgradeTable,
+  getVersions,
+  insertVersion,
+  deleteVersion,
+  updateChecksum,
+  runMigration,
+  transactionWarning,
+  hasLegacyTable,
+  moveLegacyTable,
+  acquireLock,
+};
+
+// Goose-compatible history table: rows are never deleted, and the state of a
+// version is taken from its latest row
+
+const createGooseTable = async (db: SQL, tableName: string) => {
+  await createSchema(db, tableName);
+  await db.unsafe(`create table if not exists ${quoteTableName(tableName, "`")} (
+        id serial not null,
+        version_id bigint not null,
+        is_applied boolean not null,
+        tstamp timestamp null default now(),
+        primary key (id)
+    )`);
+  await db.unsafe(
+    `insert into ${quoteTableName(tableName, "`")} (version_id, is_applied) values (0, true)`,
+  );
+};
+
+const getGooseVersions = async (
+  db: SQL,
+  tableName: string,
+): Promise<AppliedVersion[]> => {
+  const result = await db.unsafe<{ version_id: bigint; tstamp: Date }[]>(
+    `select version_id, tstamp from ${quoteTableName(tableName, "`")}
+     where id in (select max(id) from ${quoteTableName(tableName, "`")} group by version_id)
+       and is_applied = true and version_id <> 0
+     order by id asc`,
+  );
+  return result.map((row) => ({
+    version_id: BigInt(row.version_id),
+    applied_at: new Date(row.tstamp),
+  }));
+};
+
+const insertGooseVersion = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+) => {
+  await db.unsafe(
+    `insert into ${quoteTableName(tableName, "`")} (version_id, is_applied) values (?, true)`,
+    [version],
+  );
+};
+
+const deleteGooseVersion = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+) => {
+  await db.unsafe(
+    `insert into ${quoteTableName(tableName, "`")} (version_id, is_applied) values (?, false)`,
+    [version],
+  );
+};
+
+export const MySQLGooseStore: Store = {
+  ...MySQLStore,
+  createTable: createGooseTable,
+  // The goose layout has no metadata columns
+  upgradeTable: undefined,
+  updateChecksum: undefined,
+  getVersions: getGooseVersions,
+  insertVersion: insertGooseVersion,
+  deleteVersion: deleteGooseVersion,
+};
@@ -1,71 +1,271 @@
 import type { SQL } from "bun";
-import type { Store } from "./store";
+import { splitTableName } from "./config";
+import { type LockOptions, lockKey, pollLock, type ReleaseLock } from "./lock";
+import {
+  type AppliedVersion,
+  METADATA_COLUMNS,
+  quoteIdentifier,
+  quoteTableName,
+  readVersionMetadata,
+  runStatements,
+  type Store,
+  type VersionMetadata,
+  versionRow,
+} from "./store";
 
-const checkTableExists = async (db: SQL, tableName: string) => {
-  try {
-    await db.unsafe(`select count(id) from "${tableName}" limit 1;`);
-  } catch {
-    return false;
-  }
+// to_regclass resolves the name like a query would, and returns null
+// instead of failing when the table or its schema does not exist
+const tableExists = async (db: SQL, quotedName: string) => {
+  const [row] = await db<{ found: boolean }[]>`
+    select to_regclass(${quotedName}) is not null as found`;
+  return row?.found === true;
+};
 
-  return true;
+const checkTableExists = (db: SQL, tableName: string) =>
+  tableExists(db, quoteTableName(tableName));
+
+const createSchema = async (db: SQL, tableName: string) => {
+  const { schema } = splitTableName(tableName);
+  if (schema) {
+    await db.unsafe(`create schema if not exists ${quoteIdentifier(schema)}`);
+  }
 };
 
 const createTable = async (db: SQL, tableName: string) => {
-  await db.unsafe(`create table if not exists "${tableName}" (
+  await createSchema(db, tableName);
+  await db.unsafe(`create table if not exists ${quoteTableName(tableName)} (
         id uuid primary key not null default gen_random_uuid(),
         version_id bigint not null,
-        applied_at timestamp not null default current_timestamp
+        applied_at timestamp not null default current_timestamp,
+        ${Object.entries(METADATA_COLUMNS)
+          .map(([column, type]) => `${column} ${type}`)
+          .join(",\n        ")}
     )`);
 };
 
+// ALTER TABLE needs ownership and an exclusive lock even when every column
+// exists, so only alter the table when a column is missing. The table is
+// resolved like to_regclass in tableExists, following the search_path.
+const upgradeTable = async (db: SQL, tableName: string) => {
+  const rows = await db.unsafe<{ name: string }[]>(
+    `select attname as name from pg_attribute
+     where attrelid = to_regclass($1) and attnum > 0 and not attisdropped`,
+    [quoteTableName(tableName)],
+  );
+  const existing = new Set(rows.map((row) => row.name));
+  const missing = Object.entries(METADATA_COLUMNS).filter(
+    ([column]) => !existing.has(column),
+  );
+  if (missing.length === 0) {
+    return;
+  }
+  await db.unsafe(
+    `alter table ${quoteTableName(tableName)} ${missing
+      .map(([column, type]) => `add column if not exists ${column} ${type}`)
+      .join(", ")}`,
+  );
+};
+
+// select * also reads tables that have not been upgraded yet
 const getVersions = async (
   db: SQL,
   tableName: string,
-): Promise<{ version_id: bigint; applied_at: Date }[]> => {
-  const result = await db.unsafe<{ version_id: bigint; applied_at: Date }[]>(
-    `select version_id, applied_at from "${tableName}" order by applied_at asc`,
-  );
+): Promise<AppliedVersion[]> => {
+  const result = await db.unsafe<
+    ({ version_id: bigint; applied_at: Date } & Record<string, unknown>)[]
+  >(`select * from ${quoteTableName(tableName)} order by applied_at asc`);
   return result.map((row) => ({
     version_id: BigInt(row.version_id),
     applied_at: new Date(row.applied_at),
+    metadata: readVersionMetadata(row),
   }));
 };
 
-const insertVersion = async (db: SQL, tableName: string, version: bigint) => {
+const insertVersion = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+  metadata?: VersionMetadata,
+) => {
+  const { columns, values } = versionRow(version, metadata);
   await db.unsafe(
-    `insert into "${tableName}" (version_id) values (${version})`,
+    `insert into ${quoteTableName(tableName)} (${columns.join(", ")}) values (${columns.map((_, index) => `$${index + 1}`).join(", ")})`,
+    values,
   );
 };
 
 const deleteVersion = async (db: SQL, tableName: string, version: bigint) => {
-  await db.unsafe(`delete from "${tableName}" where version_id = ${version}`);
+  await db.unsafe(
+    `delete from ${quoteTableName(tableName)} where version_id = $1`,
+    [version],
+  );
+};
+
+const updateChecksum = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+  file_name: string,
+  checksum: string,
+) => {
+  await db.unsafe(
+    `update ${quoteTableName(tableName)} set checksum = $1, file_name = coalesce(file_name, $2) where version_id = $3`,
+    [checksum, file_name, version],
+  );
 };
 
 const runMigration = async (
   db: SQL,
   statements: string[],
   transaction: boolean,
+  recordVersion: (tx: SQL) => Promise<void>,
 ) => {
   if (transaction) {
     await db.begin(async (tx) => {
-      for (const statement of statements) {
-        await tx.unsafe(statement);
-      }
+      await runStatements(tx, statements);
+      await recordVersion(tx);
     });
     return;
   }
 
-  for (const statement of statements) {
-    await db.unsafe(statement);
+  await runStatements(db, statements);
+  await recordVersion(db);
+};
+
+const hasLegacyTable = async (db: SQL, tableName: string) =>
+  splitTableName(tableName).schema !== undefined &&
+  tableExists(db, quoteIdentifier(tableName));
+
+const moveLegacyTable = async (db: SQL, tableName: string) => {
+  const { schema, table } = splitTableName(tableName);
+  const legacyName = quoteIdentifier(tableName);
+  if (!schema) {
+    throw new Error(`Table ${tableName} is not schema-qualified.`);
   }
+
+  // Sequences owned by the table move with it
+  await db.begin(async (tx) => {
+    await createSchema(tx, tableName);
+    await tx.unsafe(
+      `alter table ${legacyName} set schema ${quoteIdentifier(schema)}`,
+    );
+    await tx.unsafe(
+      `alter table ${quoteIdentifier(schema)}.${legacyName} rename to ${quoteIdentifier(table)}`,
+    );
+  });
+  return quoteTableName(tableName);
+};
+
+// Advisory locks belong to a session, so lock and unlock on a reserved connection
+const acquireLock = async (
+  db: SQL,
+  tableName: string,
+  options: LockOptions,
+): Promise<ReleaseLock> => {
+  const key = lockKey(tableName);
+  const connection = await db.reserve();
+
+  try {
+    await pollLock(
+      async () => {
+        const [row] = await connection<{ locked: boolean }[]>`
+          select pg_try_advisory_lock(${key}) as locked`;
+        return row?.locked === true;
+      },
+      tableName,
+      options,
+    );
+  } catch (error) {
+    connection.release();
+    throw error;
+  }
+
+  return async () => {
+    try {
+      await connection`select pg_advisory_unlock(${key})`;
+    } finally {
+      connection.release();
+    }
+  };
 };
 
 export const PostgresStore: Store = {
   checkTableExists,
   createTable,
+  upgradeTable,
   getVersions,
   insertVersion,
   deleteVersion,
+  updateChecksum,
   runMigration,
+  hasLegacyTable,
+  moveLegacyTable,
+  acquireLock,
+};
+
+// Goose-compatible history table: rows are never deleted, and the state of a
+// version is taken from its latest row
+
+const createGooseTable = async (db: SQL, tableName: string) => {
+  await db.begin(async (tx) => {
+    await createSchema(tx, tableName);
+    await tx.unsafe(`create table if not exists ${quoteTableName(tableName)} (
+        id serial primary key,
+        version_id bigint not null,
+        is_applied boolean not null,
+        tstamp timestamp not null default now()
+    )`);
+    await tx.unsafe(
+      `insert into ${quoteTableName(tableName)} (version_id, is_applied) values (0, true)`,
+    );
+  });
+};
+
+const getGooseVersions = async (
+  db: SQL,
+  tableName: string,
+): Promise<AppliedVersion[]> => {
+  const result = await db.unsafe<{ version_id: bigint; tstamp: Date }[]>(
+    `select version_id, tstamp from ${quoteTableName(tableName)}
+     where id in (select max(id) from ${quoteTableName(tableName)} group by version_id)
+       and is_applied = true and version_id <> 0
+     order by id asc`,
+  );
+  return result.map((row) => ({
+    version_id: BigInt(row.version_id),
+    applied_at: new Date(row.tstamp),
+  }));
+};
+
+const insertGooseVersion = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+) => {
+  await db.unsafe(
+    `insert into ${quoteTableName(tableName)} (version_id, is_applied) values ($1, true)`,
+    [version],
+  );
+};
+
+const deleteGooseVersion = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+) => {
+  await db.unsafe(
+    `insert into ${quoteTableName(tableName)} (version_id, is_applied) values ($1, false)`,
+    [version],
+  );
+};
+
+export const PostgresGooseStore: Store = {
+  ...PostgresStore,
+  createTable: createGooseTable,
+  // The goose layout has no metadata columns
+  upgradeTable: undefined,
+  updateChecksum: undefined,
+  getVersions: getGooseVersions,
+  insertVersion: insertGooseVersion,
+  deleteVersion: deleteGooseVersion,
 };
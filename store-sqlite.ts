@@ -1,71 +1,360 @@
-import type { SQL } from "bun";
-import type { Store } from "./store";
+import { hostname } from "node:os";
+import { SQL } from "bun";
+import { splitTableName } from "./config";
+import { type LockOptions, pollLock, type ReleaseLock } from "./lock";
+import {
+  type AppliedVersion,
+  METADATA_COLUMNS,
+  quoteIdentifier,
+  readVersionMetadata,
+  runStatements,
+  type Store,
+  type VersionMetadata,
+  versionRow,
+} from "./store";
 
-const checkTableExists = async (db: SQL, tableName: string) => {
-  try {
-    await db.unsafe(`select count(id) from "${tableName}" limit 1;`);
-  } catch {
-    return false;
+/**
+ * SQLite qualifies table names with an attached database ("main", "temp" or
+ * a database attached with ATTACH), so a schema that is not attached becomes
+ * a prefix instead: "tsgoose.migration" is the table "tsgoose_migration".
+ */
+const resolveTable = async (
+  db: SQL,
+  tableName: string,
+): Promise<{ schema?: string; table: string }> => {
+  const { schema, table } = splitTableName(tableName);
+  if (!schema) {
+    return { table };
   }
 
-  return true;
+  const databases = await db.unsafe<{ name: string }[]>("pragma database_list");
+  return databases.some((database) => database.name === schema)
+    ? { schema, table }
+    : { table: `${schema}_${table}` };
+};
+
+const resolveTableName = async (db: SQL, tableName: string) => {
+  const { schema, table } = await resolveTable(db, tableName);
+  return schema
+    ? `${quoteIdentifier(schema)}.${quoteIdentifier(table)}`
+    : quoteIdentifier(table);
+};
+
+// Each attached database has its own sqlite_master
+const tableExists = async (
+  db: SQL,
+  schema: string | undefined,
+  table: string,
+) => {
+  const master = schema
+    ? `${quoteIdentifier(schema)}.sqlite_master`
+    : "sqlite_master";
+  const rows = await db.unsafe(
+    `select 1 from ${master} where type = 'table' and name = ?`,
+    [table],
+  );
+  return rows.length > 0;
+};
+
+const checkTableExists = async (db: SQL, tableName: string) => {
+  const { schema, table } = await resolveTable(db, tableName);
+  return tableExists(db, schema, table);
 };
 
 const createTable = async (db: SQL, tableName: string) => {
-  await db.unsafe(`create table if not exists "${tableName}" (
+  const table = await resolveTableName(db, tableName);
+  await db.unsafe(`create table if not exists ${table} (
         id text primary key not null default (lower(hex(randomblob(16)))),
         version_id integer not null,
-        applied_at text not null default (datetime('now'))
+        applied_at text not null default (datetime('now')),
+        ${Object.entries(METADATA_COLUMNS)
+          .map(([column, type]) => `${column} ${type}`)
+          .join(",\n        ")}
     )`);
 };
 
+// SQLite has no "add column if not exists", so compare with table_info
+const upgradeTable = async (db: SQL, tableName: string) => {
+  const { schema, table } = await resolveTable(db, tableName);
+  const rows = await db.unsafe<{ name: string }[]>(
+    "select name from pragma_table_info(?, ?)",
+    [table, schema ?? "main"],
+  );
+  const existing = new Set(rows.map((row) => row.name));
+  const quotedName = await resolveTableName(db, tableName);
+  for (const [column, type] of Object.entries(METADATA_COLUMNS)) {
+    if (!existing.has(column)) {
+      await db.unsafe(`alter table ${quotedName} add column ${column} ${type}`);
+    }
+  }
+};
+
+// select * also reads tables that have not been upgraded yet
 const getVersions = async (
   db: SQL,
   tableName: string,
-): Promise<{ version_id: bigint; applied_at: Date }[]> => {
-  const result = await db.unsafe<{ version_id: bigint; applied_at: string }[]>(
-    `select version_id, applied_at from "${tableName}" order by applied_at asc`,
-  );
+): Promise<AppliedVersion[]> => {
+  const table = await resolveTableName(db, tableName);
+  const result = await db.unsafe<
+    ({ version_id: bigint; applied_at: string } & Record<string, unknown>)[]
+  >(`select * from ${table} order by applied_at asc`);
   return result.map((row) => ({
     version_id: BigInt(row.version_id),
     applied_at: new Date(row.applied_at),
+    metadata: readVersionMetadata(row),
   }));
 };
 
-const insertVersion = async (db: SQL, tableName: string, version: bigint) => {
+const insertVersion = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+  metadata?: VersionMetadata,
+) => {
+  const table = await resolveTableName(db, tableName);
+  const { columns, values } = versionRow(version, metadata);
   await db.unsafe(
-    `insert into "${tableName}" (version_id) values (${version})`,
+    `insert into ${table} (${columns.join(", ")}) values (${columns.map(() => "?").join(", ")})`,
+    values,
   );
 };
 
 const deleteVersion = async (db: SQL, tableName: string, version: bigint) => {
-  await db.unsafe(`delete from "${tableName}" where version_id = ${version}`);
+  const table = await resolveTableName(db, tableName);
+  await db.unsafe(`delete from ${table} where version_id = ?`, [version]);
+};
+
+const updateChecksum = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+  file_name: string,
+  checksum: string,
+) => {
+  const table = await resolveTableName(db, tableName);
+  await db.unsafe(
+    `update ${table} set checksum = ?, file_name = coalesce(file_name, ?) where version_id = ?`,
+    [checksum, file_name, version],
+  );
 };
 
 const runMigration = async (
   db: SQL,
   statements: string[],
   transaction: boolean,
+  recordVersion: (tx: SQL) => Promise<void>,
 ) => {
   if (transaction) {
     await db.begin(async (tx) => {
-      for (const statement of statements) {
-        await tx.unsafe(statement);
-      }
+      await runStatements(tx, statements);
+      await recordVersion(tx);
     });
     return;
   }
 
-  for (const statement of statements) {
-    await db.unsafe(statement);
+  await runStatements(db, statements);
+  await recordVersion(db);
+};
+
+const hasLegacyTable = async (db: SQL, tableName: string) =>
+  splitTableName(tableName).schema !== undefined &&
+  tableExists(db, undefined, tableName);
+
+const moveLegacyTable = async (db: SQL, tableName: string) => {
+  const legacyName = quoteIdentifier(tableName);
+  const table = await resolveTableName(db, tableName);
+  if (table.includes(".")) {
+    // ALTER TABLE cannot move a table to another database
+    throw new Error(
+      `Table ${legacyName} must be copied to ${table} by hand, as SQLite cannot move it to another database.`,
+    );
   }
+  await db.unsafe(`alter table ${legacyName} rename to ${table}`);
+  return table;
+};
+
+// Columns of the lock row identifying its holder, added to lock tables
+// created before they were recorded
+const LOCK_HOLDER_COLUMNS = { pid: "integer", hostname: "text" };
+
+type LockHolder = { pid: number | null; hostname: string | null };
+
+// A lock held by a process of this host that is no longer running, such as
+// after a crash or kill -9, is stale. The holder of a lock from another host,
+// or without a pid, cannot be checked.
+function isStaleLock(holder: LockHolder): boolean {
+  if (holder.pid === null || holder.hostname !== hostname()) {
+    return false;
+  }
+  try {
+    process.kill(holder.pid, 0);
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
+
+// A connection writing to the database, such as another process inside a
+// migration transaction, makes SQLite fail with SQLITE_BUSY instead of waiting
+function isBusy(error: unknown): boolean {
+  return error instanceof SQL.SQLiteError && error.code === "SQLITE_BUSY";
+}
+
+// SQLite has no advisory locks, so a single-row lock table is used instead
+const acquireLock = async (
+  db: SQL,
+  tableName: string,
+  options: LockOptions,
+): Promise<ReleaseLock> => {
+  const { schema, table } = await resolveTable(db, `${tableName}_lock`);
+  const lockTable = await resolveTableName(db, `${tableName}_lock`);
+
+  const createLockTable = async () => {
+    await db.unsafe(`create table if not exists ${lockTable} (
+        id integer primary key not null check (id = 1),
+        locked_at text not null default (datetime('now')),
+        pid integer,
+        hostname text
+    )`);
+    const columns = await db.unsafe<{ name: string }[]>(
+      "select name from pragma_table_info(?, ?)",
+      [table, schema ?? "main"],
+    );
+    for (const [column, type] of Object.entries(LOCK_HOLDER_COLUMNS)) {
+      if (!columns.some((existing) => existing.name === column)) {
+        await db.unsafe(
+          `alter table ${lockTable} add column ${column} ${type}`,
+        );
+      }
+    }
+  };
+
+  const insertLock = async () => {
+    const rows = await db.unsafe(
+      `insert or ignore into ${lockTable} (id, pid, hostname) values (1, ?, ?) returning id`,
+      [process.pid, hostname()],
+    );
+    return rows.length > 0;
+  };
+
+  const tryLock = async () => {
+    await createLockTable();
+    if (await insertLock()) {
+      return true;
+    }
+    const [holder] = await db.unsafe<LockHolder[]>(
+      `select pid, hostname from ${lockTable} where id = 1`,
+    );
+    if (!holder || !isStaleLock(holder)) {
+      return false;
+    }
+    await db.unsafe(
+      `delete from ${lockTable} where id = 1 and pid = ? and hostname = ?`,
+      [holder.pid, holder.hostname],
+    );
+    return insertLock();
+  };
+
+  await pollLock(
+    async () => {
+      try {
+        return await tryLock();
+      } catch (error) {
+        if (isBusy(error)) {
+          return false;
+        }
+        throw error;
+      }
+    },
+    tableName,
+    options,
+  );
+
+  return async () => {
+    await db.unsafe(`delete from ${lockTable} where id = 1`);
+  };
 };
 
 export const SQLiteStore: Store = {
   checkTableExists,
   createTable,
+  upgradeTable,
   getVersions,
   insertVersion,
   deleteVersion,
+  updateChecksum,
   runMigration,
+  hasLegacyTable,
+  moveLegacyTable,
+  acquireLock,
+};
+
+// Goose-compatible history table: rows are never deleted, and the state of a
+// version is taken from its latest row
+
+const createGooseTable = async (db: SQL, tableName: string) => {
+  const table = await resolveTableName(db, tableName);
+  await db.begin(async (tx) => {
+    await tx.unsafe(`create table if not exists ${table} (
+        id integer primary key autoincrement,
+        version_id integer not null,
+        is_applied integer not null,
+        tstamp timestamp default (datetime('now'))
+    )`);
+    await tx.unsafe(
+      `insert into ${table} (version_id, is_applied) values (0, 1)`,
+    );
+  });
+};
+
+const getGooseVersions = async (
+  db: SQL,
+  tableName: string,
+): Promise<AppliedVersion[]> => {
+  const table = await resolveTableName(db, tableName);
+  const result = await db.unsafe<{ version_id: bigint; tstamp: string }[]>(
+    `select version_id, tstamp from ${table}
+     where id in (select max(id) from ${table} group by version_id)
+       and is_applied = 1 and version_id <> 0
+     order by id asc`,
+  );
+  return result.map((row) => ({
+    version_id: BigInt(row.version_id),
+    applied_at: new Date(row.tstamp),
+  }));
+};
+
+const insertGooseVersion = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+) => {
+  const table = await resolveTableName(db, tableName);
+  await db.unsafe(
+    `insert into ${table} (version_id, is_applied) values (?, 1)`,
+    [version],
+  );
+};
+
+const deleteGooseVersion = async (
+  db: SQL,
+  tableName: string,
+  version: bigint,
+) => {
+  const table = await resolveTableName(db, tableName);
+  await db.unsafe(
+    `insert into ${table} (version_id, is_applied) values (?, 0)`,
+    [version],
+  );
+};
+
+export const SQLiteGooseStore: Store = {
+  ...SQLiteStore,
+  createTable: createGooseTable,
+  // The goose layout has no metadata columns
+  upgradeTable: undefined,
+  updateChecksum: undefined,
+  getVersions: getGooseVersions,
+  insertVersion: insertGooseVersion,
+  deleteVersion: deleteGooseVersion,
 };
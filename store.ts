@@ -1,17 +1,168 @@
 import type { SQL } from "bun";
+import { splitTableName } from "./config";
+import type { LockOptions, ReleaseLock } from "./lock";
+
+/**
+ * Quote an identifier, doubling the quote character inside it.
+ * PostgreSQL and SQLite use double quotes, MySQL uses backticks.
+ */
+export function quoteIdentifier(name: string, quote = '"'): string {
+  return `${quote}${name.replaceAll(quote, quote + quote)}${quote}`;
+}
+
+/**
+ * Quote a table name, qualifying it with its schema when it has one:
+ * "tsgoose.migration" becomes "tsgoose"."migration".
+ */
+export function quoteTableName(tableName: string, quote = '"'): string {
+  const { schema, table } = splitTableName(tableName);
+  return schema
+    ? `${quoteIdentifier(schema, quote)}.${quoteIdentifier(table, quote)}`
+    : quoteIdentifier(table, quote);
+}
+
+/**
+ * Thrown by runStatements when a statement fails, with its position in the
+ * migration. The driver's error is kept as the cause.
+ */
+export class StatementError extends Error {
+  public readonly statement_index: number;
+  public readonly statement: string;
+
+  constructor(statement_index: number, statement: string, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = "StatementError";
+    this.statement_index = statement_index;
+    this.statement = statement;
+  }
+}
+
+/**
+ * Read the metadata columns of a version row, if it has them.
+ */
+export function readVersionMetadata(
+  row: Record<string, unknown>,
+): VersionMetadata | undefined {
+  if (typeof row.file_name !== "string") {
+    return undefined;
+  }
+  return {
+    file_name: row.file_name,
+    checksum: typeof row.checksum === "string" ? row.checksum : null,
+    duration_ms:
+      row.duration_ms === null || row.duration_ms === undefined
+        ? null
+        : Number(row.duration_ms),
+    applied_by: typeof row.applied_by === "string" ? row.applied_by : null,
+    tool_version:
+      typeof row.tool_version === "string" ? row.tool_version : null,
+  };
+}
+
+/**
+ * Run the statements of a SQL migration in order.
+ */
+export async function runStatements(db: SQL, statements: string[]) {
+  for (const [index, statement] of statements.entries()) {
+    try {
+      await db.unsafe(statement);
+    } catch (error) {
+      throw new StatementError(index, statement, error);
+    }
+  }
+}
+
+/**
+ * Audit details recorded with each applied version. For versions applied
+ * before they were recorded, repair fills in only the file name and checksum.
+ */
+export type VersionMetadata = {
+  file_name: string;
+  // SHA-256 of the migration source, null for migrations defined in code
+  checksum: string | null;
+  duration_ms: number | null;
+  // TSGOOSE_APPLIED_BY, or user@hostname
+  applied_by: string | null;
+  tool_version: string | null;
+};
+
+export type AppliedVersion = {
+  version_id: bigint;
+  applied_at: Date;
+  // Missing for rows recorded before metadata was added, and for stores
+  // that do not record it
+  metadata?: VersionMetadata;
+};
+
+// Columns added to the version table for VersionMetadata, with a type that
+// works in every dialect. upgradeTable adds them to older tables.
+export const METADATA_COLUMNS: Record<keyof VersionMetadata, string> = {
+  file_name: "text",
+  checksum: "text",
+  duration_ms: "integer",
+  applied_by: "text",
+  tool_version: "text",
+};
+
+/**
+ * Columns and bound values of a version row, with its metadata when given.
+ */
+export function versionRow(
+  version: bigint,
+  metadata?: VersionMetadata,
+): { columns: string[]; values: unknown[] } {
+  if (!metadata) {
+    return { columns: ["version_id"], values: [version] };
+  }
+  const columns = Object.keys(METADATA_COLUMNS) as (keyof VersionMetadata)[];
+  return {
+    columns: ["version_id", ...columns],
+    values: [version, ...columns.map((column) => metadata[column])],
+  };
+}
 
 export interface Store {
   checkTableExists: (db: SQL, tableName: string) => Promise<boolean>;
   createTable: (db: SQL, tableName: string) => Promise<void>;
-  getVersions: (
-    db: SQL,
-    tableName: string,
-  ) => Promise<{ version_id: bigint; applied_at: Date }[]>;
+  // Adds columns introduced after the table was created
+  upgradeTable?: (db: SQL, tableName: string) => Promise<void>;
+  getVersions: (db: SQL, tableName: string) => Promise<AppliedVersion[]>;
+  // recordVersion runs in the same transaction as the statements, so the
+  // schema change and its version row are committed together
   runMigration: (
     db: SQL,
     statements: string[],
     transaction: boolean,
+    recordVersion: (tx: SQL) => Promise<void>,
+  ) => Promise<void>;
+  insertVersion: (
+    db: SQL,
+    tableName: string,
+    version: bigint,
+    metadata?: VersionMetadata,
   ) => Promise<void>;
-  insertVersion: (db: SQL, tableName: string, version: bigint) => Promise<void>;
   deleteVersion: (db: SQL, tableName: string, version: bigint) => Promise<void>;
+  // Why a transactional migration with these statements cannot be fully
+  // rolled back on failure, if it cannot
+  transactionWarning?: (statements: string[]) => string | undefined;
+  // Replaces the recorded checksum of an applied version (repair), and records
+  // its file name if it has none
+  updateChecksum?: (
+    db: SQL,
+    tableName: string,
+    version: bigint,
+    file_name: string,
+    checksum: string,
+  ) => Promise<void>;
+  // Versions before schema-qualified table names quoted "schema.table" as a
+  // single identifier. Whether such a table exists.
+  hasLegacyTable?: (db: SQL, tableName: string) => Promise<boolean>;
+  // Moves that table to its qualified name and returns the quoted new name
+  moveLegacyTable?: (db: SQL, tableName: string) => Promise<string>;
+  // Session lock held for the duration of a mutating command
+  acquireLock: (
+    db: SQL,
+    tableName: string,
+    options: LockOptions,
+  ) => Promise<ReleaseLock>;
 }
@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import { parseCliArgs, peekOutputFormat } from "../args";
+import { ExitCode, GooseError } from "../error-handler";
+
+function parseError(argv: string[]): GooseError {
+  try {
+    parseCliArgs(argv);
+  } catch (error) {
+    return error as GooseError;
+  }
+  throw new Error("Expected parseCliArgs to throw");
+}
+
+describe("Args - parseCliArgs", () => {
+  test("should parse a command with positional arguments", () => {
+    const parsed = parseCliArgs(["create", "add_users", "ts"]);
+    expect(parsed.command).toBe("create");
+    expect(parsed.args).toEqual(["add_users", "ts"]);
+  });
+
+  test("should accept global flags before or after the command", () => {
+    const parsed = parseCliArgs([
+      "--dir",
+      "./db",
+      "up-to",
+      "123",
+      "--driver=sqlite",
+      "--dbstring",
+      "app.sqlite",
+      "--table",
+      "versions",
+      "--verbose",
+    ]);
+
+    expect(parsed.command).toBe("up-to");
+    expect(parsed.args).toEqual(["123"]);
+    expect(parsed.options).toMatchObject({
+      dir: "./db",
+      driver: "sqlite",
+      dbstring: "app.sqlite",
+      table: "versions",
+      verbose: true,
+    });
+  });
+
+  test("should parse help and version flags without a command", () => {
+    expect(parseCliArgs(["-h"]).options.help).toBe(true);
+    expect(parseCliArgs(["--version"]).options.version).toBe(true);
+    expect(parseCliArgs([]).command).toBeUndefined();
+  });
+
+  test("should reject unknown commands", () => {
+    const error = parseError(["migrate"]);
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.INVALID_ARGUMENT);
+    expect(error.message).toContain("Invalid command: migrate");
+  });
+
+  test("should reject unknown flags", () => {
+    const error = parseError(["up", "--force"]);
+    expect(error.exitCode).toBe(ExitCode.INVALID_ARGUMENT);
+    expect(error.message).toContain("--force");
+  });
+
+  test("should reject flags without a value", () => {
+    const error = parseError(["up", "--dir"]);
+    expect(error.exitCode).toBe(ExitCode.INVALID_ARGUMENT);
+    expect(error.message).toContain("--dir");
+  });
+
+  test("should reject extra positional arguments", () => {
+    const error = parseError(["up", "123"]);
+    expect(error.exitCode).toBe(ExitCode.INVALID_ARGUMENT);
+    expect(error.context.command).toBe("up");
+    expect(error.message).toContain('Unexpected argument "123"');
+  });
+
+  test("should only accept --dry-run for commands that support it", () => {
+    expect(parseCliArgs(["reset", "--dry-run"]).options["dry-run"]).toBe(true);
+
+    const error = parseError(["down", "--dry-run"]);
+    expect(error.exitCode).toBe(ExitCode.INVALID_ARGUMENT);
+    expect(error.message).toContain(
+      'Flag --dry-run is not supported by "down"',
+    );
+  });
+
+  test("should accept --allow-missing for up commands", () => {
+    const parsed = parseCliArgs(["up-by-one", "--allow-missing"]);
+    expect(parsed.options["allow-missing"]).toBe(true);
+    expect(parseError(["reset", "--allow-missing"]).exitCode).toBe(
+      ExitCode.INVALID_ARGUMENT,
+    );
+  });
+
+  test("should accept --ignore-checksums for up commands", () => {
+    const parsed = parseCliArgs(["up-to", "5", "--ignore-checksums"]);
+    expect(parsed.options["ignore-checksums"]).toBe(true);
+    expect(parseError(["down", "--ignore-checksums"]).exitCode).toBe(
+      ExitCode.INVALID_ARGUMENT,
+    );
+    expect(parseCliArgs(["repair"]).command).toBe("repair");
+  });
+
+  test("should accept --output json and --json for every command", () => {
+    expect(parseCliArgs(["status", "--output", "json"]).options.output).toBe(
+      "json",
+    );
+    expect(parseCliArgs(["up", "--json"]).options.json).toBe(true);
+    expect(parseError(["status", "--output", "yaml"]).exitCode).toBe(
+      ExitCode.INVALID_ARGUMENT,
+    );
+  });
+
+  test("should find the output format in arguments that fail to parse", () => {
+    expect(peekOutputFormat(["up", "--json", "--bogus"])).toBe("json");
+    expect(peekOutputFormat(["--output", "json", "bogus"])).toBe("json");
+    expect(peekOutputFormat(["up", "--output=json"])).toBe("json");
+    expect(peekOutputFormat(["up", "--bogus"])).toBe("text");
+  });
+
+  test("should reject --verbose together with --quiet", () => {
+    const error = parseError(["status", "--verbose", "-q"]);
+    expect(error.exitCode).toBe(ExitCode.INVALID_ARGUMENT);
+  });
+});
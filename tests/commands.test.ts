@@ -1,13 +1,16 @@
 import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
-import { mkdir, rm, writeFile } from "node:fs/promises";
+import { mkdir, readdir, rm, writeFile } from "node:fs/promises";
 import path from "node:path";
 import type { SQL, TransactionSQL } from "bun";
 import { downCommand } from "../commands/down";
 import { downToCommand } from "../commands/down-to";
+import { fixCommand } from "../commands/fix";
+import { redoCommand } from "../commands/redo";
 import { resetCommand } from "../commands/reset";
 import { upCommand } from "../commands/up";
 import { upByOneCommand } from "../commands/up-by-one";
 import { upToCommand } from "../commands/up-to";
+import { validateCommand } from "../commands/validate";
 import type { Store } from "../store";
 
 // Mock import utility for testing
@@ -35,6 +38,8 @@ function createMockStore() {
     runMigration: 0,
     insertVersion: 0,
     deleteVersion: 0,
+    acquireLock: 0,
+    releaseLock: 0,
   };
 
   let tableExists = false;
@@ -56,9 +61,15 @@ function createMockStore() {
       }));
     }),
     runMigration: mock(
-      async (_db: SQL, statements: string[], _transaction: boolean) => {
+      async (
+        db: SQL,
+        statements: string[],
+        _transaction: boolean,
+        recordVersion: (tx: SQL) => Promise<void>,
+      ) => {
         mockCalls.runMigration++;
         executedStatements.push(...statements);
+        await recordVersion(db);
       },
     ),
     insertVersion: mock(
@@ -76,6 +87,12 @@ function createMockStore() {
         }
       },
     ),
+    acquireLock: mock(async (_db: SQL, _tableName: string) => {
+      mockCalls.acquireLock++;
+      return async () => {
+        mockCalls.releaseLock++;
+      };
+    }),
   };
 
   return {
@@ -510,6 +527,35 @@ describe("Commands - createCommand", () => {
     );
   });
 
+  test("should use the next sequential version with sequential option", async () => {
+    const { createMigration, nextSequentialVersion } = await mockImport(
+      "../migration",
+      () => ({
+        createMigration: mock(() => Promise.resolve()),
+        nextSequentialVersion: mock(() => Promise.resolve(3n)),
+      }),
+    );
+
+    const { createCommand } = await import("../commands/create");
+
+    await createCommand(
+      ["test_migration"],
+      { migration_dir: TEST_MIGRATION_DIR },
+      { sequential: true },
+    );
+
+    expect(nextSequentialVersion).toHaveBeenCalledWith(
+      TEST_MIGRATION_DIR,
+      undefined,
+    );
+    expect(createMigration).toHaveBeenCalledWith(
+      "test_migration",
+      TEST_MIGRATION_DIR,
+      "sql",
+      3n,
+    );
+  });
+
   test("should default to SQL when type is invalid", async () => {
     const { createMigration } = await mockImport("../migration", () => ({
       createMigration: mock(() => Promise.resolve()),
@@ -867,6 +913,292 @@ DROP TABLE users;`,
   });
 });
 
+describe("Commands - redoCommand", () => {
+  test("should roll back and re-apply the last migration", async () => {
+    const {
+      store,
+      appliedVersions,
+      executedStatements,
+      mockCalls,
+      setTableExists,
+    } = createMockStore();
+    const db = createMockDB();
+    setTableExists(true);
+
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_first.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INT);\n\n-- +goose Down\nDROP TABLE users;",
+    );
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000002_second.sql"),
+      "-- +goose Up\nCREATE TABLE posts (id INT);\n\n-- +goose Down\nDROP TABLE posts;",
+    );
+    appliedVersions.push(1000000000001n, 1000000000002n);
+
+    const originalLog = console.log;
+    console.log = mock(() => {});
+
+    await redoCommand(db, store, {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+    });
+
+    console.log = originalLog;
+
+    expect(executedStatements).toEqual([
+      "DROP TABLE posts;",
+      "CREATE TABLE posts (id INT);",
+    ]);
+    expect(appliedVersions).toEqual([1000000000001n, 1000000000002n]);
+    expect(mockCalls.acquireLock).toBe(1);
+    expect(mockCalls.releaseLock).toBe(1);
+  });
+
+  test("should exit if local version file doesn't exist", async () => {
+    const { store, appliedVersions, executedStatements, setTableExists } =
+      createMockStore();
+    const db = createMockDB();
+    setTableExists(true);
+
+    appliedVersions.push(1000000000000n);
+
+    const originalExit = process.exit;
+    const originalError = console.error;
+    let exitCode: number | undefined;
+
+    process.exit = mock((code?: number) => {
+      exitCode = code;
+      throw new Error("EXIT");
+    }) as never;
+    console.error = mock(() => {});
+
+    try {
+      await redoCommand(db, store, {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+      });
+    } catch {
+      // Expected exit
+    }
+
+    process.exit = originalExit;
+    console.error = originalError;
+
+    expect(exitCode).toBe(3); // NO_MIGRATIONS
+    expect(executedStatements).toEqual([]);
+    expect(appliedVersions).toEqual([1000000000000n]);
+  });
+});
+
+describe("Commands - fixCommand", () => {
+  test("should rename unapplied timestamped migrations to sequential versions", async () => {
+    const { store, appliedVersions, setTableExists } = createMockStore();
+    const db = createMockDB();
+    setTableExists(true);
+
+    const files = [
+      "00001_first.sql",
+      "00002_second.sql",
+      "1700000000000_applied.sql",
+      "1700000000001_third.sql",
+      "1700000000002_fourth.ts",
+    ];
+    for (const file of files) {
+      await writeFile(path.join(TEST_MIGRATION_DIR, file), "-- +goose Up\n");
+    }
+    appliedVersions.push(1n, 2n, 1700000000000n);
+
+    const logs: string[] = [];
+    const originalLog = console.log;
+    console.log = mock((message: string) => {
+      logs.push(message);
+    });
+
+    await fixCommand(db, store, {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+    });
+
+    console.log = originalLog;
+
+    expect((await readdir(TEST_MIGRATION_DIR)).sort()).toEqual([
+      "00001_first.sql",
+      "00002_second.sql",
+      "00003_third.sql",
+      "00004_fourth.ts",
+      "1700000000000_applied.sql",
+    ]);
+    expect(logs).toContain(
+      "RENAMED 1700000000001_third.sql => 00003_third.sql",
+    );
+  });
+
+  test("should exit successfully when there is nothing to fix", async () => {
+    const { store } = createMockStore();
+    const db = createMockDB();
+
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "00001_first.sql"),
+      "-- +goose Up\n",
+    );
+
+    const originalExit = process.exit;
+    const originalLog = console.log;
+    let exitCode: number | undefined;
+
+    process.exit = mock((code?: number) => {
+      exitCode = code;
+      throw new Error("EXIT");
+    }) as never;
+    console.log = mock(() => {});
+
+    try {
+      await fixCommand(db, store, {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+      });
+    } catch {
+      // Expected exit
+    }
+
+    process.exit = originalExit;
+    console.log = originalLog;
+
+    expect(exitCode).toBe(0);
+  });
+});
+
+describe("Commands - validateCommand", () => {
+  async function runValidate() {
+    const errors: string[] = [];
+    const originalExit = process.exit;
+    const originalLog = console.log;
+    const originalError = console.error;
+    let exitCode: number | undefined;
+
+    process.exit = mock((code?: number) => {
+      exitCode = code;
+      throw new Error("EXIT");
+    }) as never;
+    console.log = mock(() => {});
+    console.error = mock((message: string) => {
+      errors.push(message);
+    });
+
+    try {
+      await validateCommand({ migration_dir: TEST_MIGRATION_DIR });
+    } catch {
+      // Expected exit
+    }
+
+    process.exit = originalExit;
+    console.log = originalLog;
+    console.error = originalError;
+
+    return { exitCode, errors };
+  }
+
+  test("should pass valid SQL and TypeScript migrations", async () => {
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "00001_users.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INT);\n\n-- +goose Down\nDROP TABLE users;",
+    );
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "00002_posts.ts"),
+      "export const up = async () => {};\nexport const down = async () => {};",
+    );
+
+    const { exitCode, errors } = await runValidate();
+
+    expect(exitCode).toBeUndefined();
+    expect(errors).toEqual([]);
+  });
+
+  test("should report every failing file and exit with VALIDATION_ERROR", async () => {
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "00001_no_up.sql"),
+      "CREATE TABLE users (id INT);\n-- +goose Down\nDROP TABLE users;",
+    );
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "00002_no_down.ts"),
+      "export const up = async () => {};",
+    );
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "00003_first.sql"),
+      "-- +goose Up\n-- +goose Down\n",
+    );
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "00003_second.sql"),
+      "-- +goose Up\n-- +goose Down\n",
+    );
+    await writeFile(path.join(TEST_MIGRATION_DIR, "v2_notes.sql"), "");
+
+    const { exitCode, errors } = await runValidate();
+
+    expect(exitCode).toBe(7); // VALIDATION_ERROR
+    expect(errors).toContain("FAIL\tv2_notes.sql");
+    expect(errors).toContain("FAIL\t00001_no_up.sql");
+    expect(errors).toContain("FAIL\t00002_no_down.ts");
+    expect(errors).toContain('\tMissing exported "down" function');
+    expect(errors).toContain(
+      "\tDuplicate version 3: 00003_first.sql, 00003_second.sql",
+    );
+    expect(errors).toContain(
+      'Error: Command "validate": 5 of 5 migration files failed validation.',
+    );
+  });
+});
+
+describe("Commands - Dry Run", () => {
+  test("should not run migrations, record versions or take the lock", async () => {
+    const { store, mockCalls, appliedVersions, setTableExists } =
+      createMockStore();
+    const db = createMockDB();
+    setTableExists(true);
+
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_first.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INT);\n\n-- +goose Down\nDROP TABLE users;",
+    );
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000002_second.sql"),
+      "-- +goose Up\nCREATE TABLE posts (id INT);\n\n-- +goose Down\nDROP TABLE posts;",
+    );
+    appliedVersions.push(1000000000001n);
+
+    const logs: string[] = [];
+    const originalLog = console.log;
+    console.log = mock((message: string) => {
+      logs.push(message);
+    });
+
+    await upCommand(db, store, {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+      dry_run: true,
+    });
+    await resetCommand(db, store, {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+      dry_run: true,
+    });
+
+    console.log = originalLog;
+
+    expect(mockCalls.runMigration).toBe(0);
+    expect(mockCalls.insertVersion).toBe(0);
+    expect(mockCalls.deleteVersion).toBe(0);
+    expect(mockCalls.acquireLock).toBe(0);
+    expect(appliedVersions).toEqual([1000000000001n]);
+    expect(logs).toContain(
+      "[dry-run] up 1000000000002_second.sql (1 statements, in a transaction)",
+    );
+    expect(logs).toContain(
+      "[dry-run] down 1000000000001_first.sql (1 statements, in a transaction)",
+    );
+  });
+});
+
 describe("Commands - No Transaction Tests", () => {
   test("should handle NO TRANSACTION directive in up migration", async () => {
     const { store, executedStatements, appliedVersions } = createMockStore();
@@ -888,9 +1220,15 @@ describe("Commands - No Transaction Tests", () => {
     // Track what transaction value was passed to runMigration
     let capturedTransaction: boolean | undefined;
     store.runMigration = mock(
-      async (_db: SQL, statements: string[], transaction: boolean) => {
+      async (
+        db: SQL,
+        statements: string[],
+        transaction: boolean,
+        recordVersion: (tx: SQL) => Promise<void>,
+      ) => {
         capturedTransaction = transaction;
         executedStatements.push(...statements);
+        await recordVersion(db);
       },
     );
 
@@ -931,9 +1269,15 @@ describe("Commands - No Transaction Tests", () => {
     // Track what transaction value was passed to runMigration
     let capturedTransaction: boolean | undefined;
     store.runMigration = mock(
-      async (_db: SQL, statements: string[], transaction: boolean) => {
+      async (
+        db: SQL,
+        statements: string[],
+        transaction: boolean,
+        recordVersion: (tx: SQL) => Promise<void>,
+      ) => {
         capturedTransaction = transaction;
         executedStatements.push(...statements);
+        await recordVersion(db);
       },
     );
 
@@ -971,9 +1315,15 @@ describe("Commands - No Transaction Tests", () => {
     // Track what transaction value was passed to runMigration
     let capturedTransaction: boolean | undefined;
     store.runMigration = mock(
-      async (_db: SQL, statements: string[], transaction: boolean) => {
+      async (
+        db: SQL,
+        statements: string[],
+        transaction: boolean,
+        recordVersion: (tx: SQL) => Promise<void>,
+      ) => {
         capturedTransaction = transaction;
         executedStatements.push(...statements);
+        await recordVersion(db);
       },
     );
 
@@ -1009,9 +1359,15 @@ describe("Commands - No Transaction Tests", () => {
     // Track what transaction value was passed to runMigration
     let capturedTransaction: boolean | undefined;
     store.runMigration = mock(
-      async (_db: SQL, statements: string[], transaction: boolean) => {
+      async (
+        db: SQL,
+        statements: string[],
+        transaction: boolean,
+        recordVersion: (tx: SQL) => Promise<void>,
+      ) => {
         capturedTransaction = transaction;
         executedStatements.push(...statements);
+        await recordVersion(db);
       },
     );
 
@@ -1048,8 +1404,14 @@ describe("Commands - No Transaction Tests", () => {
 
     const transactionValues: boolean[] = [];
     store.runMigration = mock(
-      async (_db: SQL, _statements: string[], transaction: boolean) => {
+      async (
+        db: SQL,
+        _statements: string[],
+        transaction: boolean,
+        recordVersion: (tx: SQL) => Promise<void>,
+      ) => {
         transactionValues.push(transaction);
+        await recordVersion(db);
       },
     );
 
@@ -1087,8 +1449,14 @@ describe("Commands - No Transaction Tests", () => {
 
     const transactionValues: boolean[] = [];
     store.runMigration = mock(
-      async (_db: SQL, _statements: string[], transaction: boolean) => {
+      async (
+        db: SQL,
+        _statements: string[],
+        transaction: boolean,
+        recordVersion: (tx: SQL) => Promise<void>,
+      ) => {
         transactionValues.push(transaction);
+        await recordVersion(db);
       },
     );
 
@@ -1238,6 +1606,42 @@ export const down = async (tx: TransactionSQL) => {
     expect(appliedVersions).toContain(1000000000000n);
   });
 
+  test("should run a typescript migration without a transaction when it opts out", async () => {
+    const { store, appliedVersions } = createMockStore();
+    const db = createMockDB();
+
+    const tsMigrationCode = `import type { SQL } from "bun";
+
+export const transaction = false;
+
+export const up = async (db: SQL) => {
+  (globalThis as Record<string, unknown>).__tsgooseMigrationDb = db;
+};
+
+export const down = async (db: SQL) => {};`;
+
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000000_create_index.ts"),
+      tsMigrationCode,
+    );
+
+    const originalLog = console.log;
+    console.log = mock(() => {});
+
+    await upCommand(db, store, {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+    });
+
+    console.log = originalLog;
+
+    const globals = globalThis as Record<string, unknown>;
+    expect(globals.__tsgooseMigrationDb).toBe(db);
+    expect(db.begin).not.toHaveBeenCalled();
+    expect(appliedVersions).toContain(1000000000000n);
+    delete globals.__tsgooseMigrationDb;
+  });
+
   test("should rollback a typescript down migration", async () => {
     const { store, mockCalls, appliedVersions, setTableExists } =
       createMockStore();
@@ -2215,3 +2619,69 @@ export const down = async (tx: TransactionSQL) => {};`;
     expect(appliedVersions.length).toBe(2);
   });
 });
+
+describe("Commands - Locking", () => {
+  test("should acquire and release the lock around up", async () => {
+    const { store, mockCalls } = createMockStore();
+    const db = createMockDB();
+
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000000_test.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INT);\n\n-- +goose Down\nDROP TABLE users;",
+    );
+
+    const originalLog = console.log;
+    console.log = mock(() => {});
+
+    await upCommand(db, store, {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+    });
+
+    console.log = originalLog;
+
+    expect(mockCalls.acquireLock).toBe(1);
+    expect(mockCalls.releaseLock).toBe(1);
+  });
+
+  test("should release the lock when a migration fails", async () => {
+    const { store, mockCalls, setTableExists } = createMockStore();
+    const db = createMockDB();
+    setTableExists(true);
+
+    store.runMigration = mock(async () => {
+      throw new Error("SQL Error: syntax error");
+    });
+
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000000_test.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INT);\n\n-- +goose Down\nDROP TABLE users;",
+    );
+
+    const originalExit = process.exit;
+    const originalError = console.error;
+    let exitCode: number | undefined;
+
+    process.exit = mock((code?: number) => {
+      exitCode = code;
+      throw new Error("EXIT");
+    }) as never;
+    console.error = mock(() => {});
+
+    try {
+      await upCommand(db, store, {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+      });
+    } catch {
+      // Expected exit
+    }
+
+    process.exit = originalExit;
+    console.error = originalError;
+
+    expect(exitCode).toBe(4); // MIGRATION_ERROR
+    expect(mockCalls.acquireLock).toBe(1);
+    expect(mockCalls.releaseLock).toBe(1);
+  });
+});
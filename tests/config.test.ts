@@ -0,0 +1,268 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  loadConfig,
+  loadEnvFile,
+  readDefaultConfig,
+  resolveConfig,
+  splitTableName,
+} from "../config";
+import { ExitCode, GooseError } from "../error-handler";
+
+// Test config directory
+const TEST_CONFIG_DIR = path.join(import.meta.dir, "test_config");
+
+// Setup and teardown
+beforeEach(async () => {
+  await rm(TEST_CONFIG_DIR, { recursive: true, force: true });
+  await mkdir(TEST_CONFIG_DIR, { recursive: true });
+});
+
+afterEach(async () => {
+  await rm(TEST_CONFIG_DIR, { recursive: true, force: true });
+});
+
+describe("Config - resolveConfig", () => {
+  test("should fill in defaults", () => {
+    const config = resolveConfig();
+    expect(config.migration_dir).toBe("./migrations");
+    expect(config.table_name).toBe("tsgoose.migration");
+    expect(config.table_format).toBe("tsgoose");
+    expect(config.driver).toBe("postgres");
+  });
+
+  test("should let later layers take precedence and ignore undefined values", () => {
+    const config = resolveConfig(
+      { migration_dir: "./a", driver: "sqlite" },
+      { migration_dir: "./b", driver: undefined },
+    );
+    expect(config.migration_dir).toBe("./b");
+    expect(config.driver).toBe("sqlite");
+  });
+
+  test("should default the table name for the goose format", () => {
+    expect(resolveConfig({ table_format: "goose" }).table_name).toBe(
+      "goose_db_version",
+    );
+  });
+
+  test("should reject invalid values", () => {
+    expect(() => resolveConfig({ driver: "oracle" })).toThrow(
+      'Unsupported driver "oracle"',
+    );
+    expect(() => resolveConfig({ table_name: "bad;name" })).toThrow(
+      'Invalid table name "bad;name"',
+    );
+    expect(() => resolveConfig({ lock_timeout_ms: -1 })).toThrow(
+      'Invalid lock_timeout_ms "-1"',
+    );
+    expect(() => resolveConfig({ table_name: "a.b.c" })).toThrow(
+      "Expected <table> or <schema>.<table>",
+    );
+    expect(() => resolveConfig({ table_name: ".migration" })).toThrow(
+      "Expected <table> or <schema>.<table>",
+    );
+  });
+
+  test("should split schema-qualified table names", () => {
+    expect(splitTableName("tsgoose.migration")).toEqual({
+      schema: "tsgoose",
+      table: "migration",
+    });
+    expect(splitTableName("goose_db_version")).toEqual({
+      table: "goose_db_version",
+    });
+  });
+});
+
+describe("Config - readDefaultConfig", () => {
+  test("should apply valid variables and skip invalid ones", () => {
+    const config = readDefaultConfig({
+      TSGOOSE_DRIVER: "foo",
+      TSGOOSE_TABLE_NAME: "bad name",
+      TSGOOSE_LOCK_TIMEOUT: "5000",
+      TSGOOSE_LOCK_RETRY_INTERVAL: "abc",
+      TSGOOSE_MIGRATION_DIR: "./db",
+    });
+    expect(config.driver).toBe("postgres");
+    expect(config.table_name).toBe("tsgoose.migration");
+    expect(config.lock_timeout_ms).toBe(5000);
+    expect(config.lock_retry_interval_ms).toBe(1000);
+    expect(config.migration_dir).toBe("./db");
+  });
+});
+
+describe("Config - loadConfig", () => {
+  test("should use defaults without a config file", async () => {
+    const config = await loadConfig({ cwd: TEST_CONFIG_DIR, env: {} });
+    expect(config).toEqual(resolveConfig());
+  });
+
+  test("should read ts-goose.config.json", async () => {
+    await writeFile(
+      path.join(TEST_CONFIG_DIR, "ts-goose.config.json"),
+      JSON.stringify({ driver: "sqlite", db_url: "app.sqlite" }),
+    );
+
+    const config = await loadConfig({ cwd: TEST_CONFIG_DIR, env: {} });
+    expect(config.driver).toBe("sqlite");
+    expect(config.db_url).toBe("app.sqlite");
+  });
+
+  test("should read the default export of ts-goose.config.ts", async () => {
+    await writeFile(
+      path.join(TEST_CONFIG_DIR, "ts-goose.config.ts"),
+      `export default { migration_dir: "./db/migrations", table_format: "goose" };`,
+    );
+
+    const config = await loadConfig({ cwd: TEST_CONFIG_DIR, env: {} });
+    expect(config.migration_dir).toBe("./db/migrations");
+    expect(config.table_name).toBe("goose_db_version");
+  });
+
+  test("should read the ts-goose key in package.json", async () => {
+    await writeFile(
+      path.join(TEST_CONFIG_DIR, "package.json"),
+      JSON.stringify({ name: "app", "ts-goose": { driver: "mysql" } }),
+    );
+
+    const config = await loadConfig({ cwd: TEST_CONFIG_DIR, env: {} });
+    expect(config.driver).toBe("mysql");
+  });
+
+  test("should merge file, environment, env vars and overrides in order", async () => {
+    await writeFile(
+      path.join(TEST_CONFIG_DIR, "ts-goose.config.json"),
+      JSON.stringify({
+        driver: "sqlite",
+        migration_dir: "./file",
+        table_name: "file_table",
+        db_url: "file.sqlite",
+        environments: {
+          production: { db_url: "prod.sqlite", table_name: "prod_table" },
+        },
+      }),
+    );
+
+    const config = await loadConfig({
+      cwd: TEST_CONFIG_DIR,
+      environment: "production",
+      env: { TSGOOSE_TABLE_NAME: "env_table", TSGOOSE_MIGRATION_DIR: "./env" },
+      overrides: { migration_dir: "./flag" },
+    });
+
+    expect(config.driver).toBe("sqlite");
+    expect(config.db_url).toBe("prod.sqlite");
+    expect(config.table_name).toBe("env_table");
+    expect(config.migration_dir).toBe("./flag");
+  });
+
+  test("should select the environment from TSGOOSE_ENV", async () => {
+    await writeFile(
+      path.join(TEST_CONFIG_DIR, "ts-goose.config.json"),
+      JSON.stringify({ environments: { staging: { driver: "sqlite" } } }),
+    );
+
+    const config = await loadConfig({
+      cwd: TEST_CONFIG_DIR,
+      env: { TSGOOSE_ENV: "staging" },
+    });
+    expect(config.driver).toBe("sqlite");
+  });
+
+  test("should throw GooseError for an unknown environment", async () => {
+    await writeFile(
+      path.join(TEST_CONFIG_DIR, "ts-goose.config.json"),
+      JSON.stringify({ environments: { development: {} } }),
+    );
+
+    const error = await loadConfig({
+      cwd: TEST_CONFIG_DIR,
+      environment: "production",
+      env: {},
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.INVALID_ARGUMENT);
+    expect(error.message).toContain('Environment "production"');
+    expect(error.context.fileName).toBe("ts-goose.config.json");
+  });
+
+  test("should throw GooseError for invalid environment variables", async () => {
+    const driverError = await loadConfig({
+      cwd: TEST_CONFIG_DIR,
+      env: { TSGOOSE_DRIVER: "foo" },
+    }).catch((e) => e);
+    expect(driverError).toBeInstanceOf(GooseError);
+    expect(driverError.exitCode).toBe(ExitCode.INVALID_ARGUMENT);
+
+    const timeoutError = await loadConfig({
+      cwd: TEST_CONFIG_DIR,
+      env: { TSGOOSE_LOCK_TIMEOUT: "abc" },
+    }).catch((e) => e);
+    expect(timeoutError).toBeInstanceOf(GooseError);
+    expect(timeoutError.message).toContain('TSGOOSE_LOCK_TIMEOUT "abc"');
+  });
+
+  test("should let overrides replace an invalid environment variable", async () => {
+    const config = await loadConfig({
+      cwd: TEST_CONFIG_DIR,
+      env: { TSGOOSE_DRIVER: "foo" },
+      overrides: { driver: "sqlite" },
+    });
+    expect(config.driver).toBe("sqlite");
+  });
+
+  test("should throw GooseError for an invalid config file", async () => {
+    await writeFile(
+      path.join(TEST_CONFIG_DIR, "ts-goose.config.json"),
+      JSON.stringify({ table_format: "rails" }),
+    );
+
+    const error = await loadConfig({ cwd: TEST_CONFIG_DIR, env: {} }).catch(
+      (e) => e,
+    );
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.INVALID_ARGUMENT);
+  });
+});
+
+describe("Config - loadEnvFile", () => {
+  test("should load variables without overriding existing ones", async () => {
+    const file = path.join(TEST_CONFIG_DIR, ".env.test");
+    await writeFile(
+      file,
+      [
+        "# database",
+        "TSGOOSE_DRIVER=sqlite",
+        'export TSGOOSE_DBSTRING="app.sqlite"',
+        "TSGOOSE_MIGRATION_DIR=./db # comment",
+        "TSGOOSE_TABLE_NAME=from_file",
+      ].join("\n"),
+    );
+    const env: Record<string, string | undefined> = {
+      TSGOOSE_TABLE_NAME: "existing",
+    };
+
+    await loadEnvFile(file, env);
+
+    expect(env).toEqual({
+      TSGOOSE_DRIVER: "sqlite",
+      TSGOOSE_DBSTRING: "app.sqlite",
+      TSGOOSE_MIGRATION_DIR: "./db",
+      TSGOOSE_TABLE_NAME: "existing",
+    });
+  });
+
+  test("should throw GooseError for a missing file", async () => {
+    const error = await loadEnvFile(
+      path.join(TEST_CONFIG_DIR, "missing.env"),
+      {},
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.INVALID_ARGUMENT);
+  });
+});
@@ -10,6 +10,7 @@ import {
   handleNoMigrations,
   handleVersionError,
 } from "../error-handler";
+import { setOutputFormat } from "../logger";
 
 describe("Error Handler", () => {
   test("handleError with string message", () => {
@@ -132,6 +133,89 @@ describe("Error Handler", () => {
     console.error = originalError;
   });
 
+  test("handleError with a failing statement", () => {
+    const originalExit = process.exit;
+    const originalError = console.error;
+    const messages: string[] = [];
+
+    process.exit = mock(() => {
+      throw new Error("EXIT");
+    }) as never;
+
+    console.error = mock((message: string) => {
+      messages.push(message);
+    }) as never;
+
+    try {
+      handleError(
+        new GooseError("Error running up migration", ExitCode.MIGRATION_ERROR, {
+          statementIndex: 1,
+          statement: "INSERT INTO users\nVALUES (1);",
+          line: 12,
+          code: "42P01",
+          position: "13",
+          hint: "Check the table name",
+        }),
+      );
+    } catch {
+      // Expected exit
+    }
+
+    expect(messages).toEqual([
+      "Error: Error running up migration",
+      "Statement 2 (line 12):",
+      "    INSERT INTO users\n    VALUES (1);",
+      "Code: 42P01",
+      "Position: 13",
+      "Hint: Check the table name",
+    ]);
+
+    process.exit = originalExit;
+    console.error = originalError;
+  });
+
+  test("handleError with JSON output", () => {
+    const originalExit = process.exit;
+    const originalError = console.error;
+    let loggedMessage: string | undefined;
+
+    process.exit = mock(() => {
+      throw new Error("EXIT");
+    }) as never;
+
+    console.error = mock((message: string) => {
+      loggedMessage = message;
+    }) as never;
+
+    setOutputFormat("json");
+    try {
+      handleError(
+        new GooseError("Migration failed", ExitCode.MIGRATION_ERROR, {
+          fileName: "00001_users.sql",
+          version: 1n,
+          originalError: new Error("syntax error"),
+        }),
+      );
+    } catch {
+      // Expected exit
+    }
+    setOutputFormat("text");
+
+    expect(JSON.parse(loggedMessage ?? "")).toEqual({
+      event: "error",
+      exit_code: ExitCode.MIGRATION_ERROR,
+      message: "Migration failed",
+      context: {
+        fileName: "00001_users.sql",
+        version: "1",
+        originalError: "syntax error",
+      },
+    });
+
+    process.exit = originalExit;
+    console.error = originalError;
+  });
+
   test("handleInvalidArgument", () => {
     const originalExit = process.exit;
     const originalError = console.error;
@@ -9,7 +9,11 @@ import { statusCommand } from "../commands/status";
 import { upCommand } from "../commands/up";
 import { upByOneCommand } from "../commands/up-by-one";
 import { upToCommand } from "../commands/up-to";
-import { SQLiteStore } from "../store-sqlite";
+import { GooseError } from "../error-handler";
+import { setLogLevel, setOutputFormat } from "../logger";
+import { createProvider } from "../provider";
+import { quoteTableName, type Store } from "../store";
+import { SQLiteGooseStore, SQLiteStore } from "../store-sqlite";
 
 // Test migration directory
 const TEST_MIGRATION_DIR = path.join(
@@ -620,4 +624,462 @@ DROP TABLE posts;`,
       console.log = originalLog;
     }
   });
+
+  test("should roll back the schema change when recording the version fails", async () => {
+    const db = new SQL("sqlite::memory:");
+    const failingStore: Store = {
+      ...SQLiteStore,
+      insertVersion: async () => {
+        throw new Error("insert failed");
+      },
+    };
+
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n\n-- +goose Down\nDROP TABLE users;",
+    );
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000002_create_posts.ts"),
+      `import type { TransactionSQL } from "bun";
+
+export const up = async (tx: TransactionSQL) => {
+  await tx\`CREATE TABLE posts (id INTEGER PRIMARY KEY)\`;
+};
+
+export const down = async (tx: TransactionSQL) => {
+  await tx\`DROP TABLE posts\`;
+};`,
+    );
+
+    const originalLog = console.log;
+    console.log = mock(() => {});
+
+    const provider = createProvider({
+      db,
+      store: failingStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+      },
+    });
+
+    await expect(provider.up()).rejects.toThrow("insert failed");
+    let tables = await db<{ name: string }[]>`
+      SELECT name FROM sqlite_master WHERE type='table' AND name='users'`;
+    expect(tables.length).toBe(0);
+
+    // Apply the SQL migration normally, then fail the TypeScript one
+    await createProvider({
+      db,
+      store: SQLiteStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+      },
+    }).upByOne();
+    await expect(provider.up()).rejects.toThrow("insert failed");
+    tables = await db<{ name: string }[]>`
+      SELECT name FROM sqlite_master WHERE type='table' AND name='posts'`;
+    expect(tables.length).toBe(0);
+
+    console.log = originalLog;
+  });
+});
+
+describe("Commands - Integration Tests with goose-compatible history", () => {
+  test("should append is_applied rows instead of deleting on rollback", async () => {
+    const db = new SQL("sqlite::memory:");
+
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n\n-- +goose Down\nDROP TABLE users;",
+    );
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000002_create_posts.sql"),
+      "-- +goose Up\nCREATE TABLE posts (id INTEGER PRIMARY KEY);\n\n-- +goose Down\nDROP TABLE posts;",
+    );
+
+    const originalLog = console.log;
+    console.log = mock(() => {});
+
+    const config = {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: "goose_db_version",
+    };
+    await upCommand(db, SQLiteGooseStore, config);
+    await downCommand(db, SQLiteGooseStore, config);
+
+    console.log = originalLog;
+
+    const rows = await db<{ version_id: number; is_applied: number }[]>`
+      SELECT version_id, is_applied FROM goose_db_version ORDER BY id`;
+    expect(rows.map((r) => [r.version_id, r.is_applied])).toEqual([
+      [0, 1],
+      [1000000000001, 1],
+      [1000000000002, 1],
+      [1000000000002, 0],
+    ]);
+
+    const versions = await SQLiteGooseStore.getVersions(db, "goose_db_version");
+    expect(versions.map((v) => v.version_id)).toEqual([1000000000001n]);
+  });
+
+  test("should read a version table created by Go goose", async () => {
+    const db = new SQL("sqlite::memory:");
+
+    // Schema and history as written by goose, including a rollback and re-apply
+    await db`CREATE TABLE goose_db_version (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      version_id INTEGER NOT NULL,
+      is_applied INTEGER NOT NULL,
+      tstamp TIMESTAMP DEFAULT (datetime('now'))
+    )`;
+    await db`INSERT INTO goose_db_version (version_id, is_applied) VALUES
+      (0, 1), (1, 1), (2, 1), (2, 0), (3, 1), (2, 1)`;
+    await db`CREATE TABLE users (id INTEGER PRIMARY KEY)`;
+
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "00001_create_users.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n\n-- +goose Down\nDROP TABLE users;",
+    );
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "00004_create_tags.sql"),
+      "-- +goose Up\nCREATE TABLE tags (id INTEGER PRIMARY KEY);\n\n-- +goose Down\nDROP TABLE tags;",
+    );
+
+    const versions = await SQLiteGooseStore.getVersions(db, "goose_db_version");
+    expect(versions.map((v) => v.version_id)).toEqual([1n, 3n, 2n]);
+
+    const originalLog = console.log;
+    console.log = mock(() => {});
+
+    await upCommand(db, SQLiteGooseStore, {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: "goose_db_version",
+    });
+
+    console.log = originalLog;
+
+    const tables = await db<{ name: string }[]>`
+      SELECT name FROM sqlite_master WHERE type='table' AND name='tags'`;
+    expect(tables.length).toBe(1);
+  });
+});
+
+describe("Commands - Integration Tests with JSON output", () => {
+  test("should print migration and status records", async () => {
+    const db = new SQL("sqlite::memory:");
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n-- +goose Down\nDROP TABLE users;",
+    );
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000002_create_posts.sql"),
+      "-- +goose Up\nCREATE TABLE posts (id INTEGER PRIMARY KEY);\n-- +goose Down\nDROP TABLE posts;",
+    );
+    const config = {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+    };
+
+    const lines: string[] = [];
+    const originalLog = console.log;
+    console.log = mock((line: string) => {
+      lines.push(line);
+    });
+    setOutputFormat("json");
+
+    try {
+      await upByOneCommand(db, SQLiteStore, config);
+      await statusCommand(db, SQLiteStore, config);
+    } finally {
+      setOutputFormat("text");
+      console.log = originalLog;
+    }
+
+    const records = lines.map((line) => JSON.parse(line));
+    expect(records.find((r) => r.event === "migration")).toMatchObject({
+      version_id: "1000000000001",
+      file_name: "1000000000001_create_users.sql",
+      type: "sql",
+      direction: "up",
+      outcome: "applied",
+    });
+    const status = records.find((r) => r.event === "status");
+    expect(status.current_version).toBe("1000000000001");
+    expect(status.migrations).toMatchObject([
+      { version_id: "1000000000001", state: "applied" },
+      {
+        version_id: "1000000000002",
+        file_name: "1000000000002_create_posts.sql",
+        type: "sql",
+        applied_at: null,
+        state: "pending",
+      },
+    ]);
+    expect(typeof status.migrations[0].applied_at).toBe("string");
+  });
+});
+
+describe("Commands - Integration Tests with JSON output of skipped versions", () => {
+  test("reset should print skipped versions as log records", async () => {
+    const db = new SQL("sqlite::memory:");
+    const config = {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+    };
+    await SQLiteStore.createTable(db, TEST_TABLE_NAME);
+    await SQLiteStore.insertVersion(db, TEST_TABLE_NAME, 1000000000001n);
+
+    const lines: string[] = [];
+    const originalLog = console.log;
+    console.log = mock((line: string) => {
+      lines.push(line);
+    });
+    setOutputFormat("json");
+
+    try {
+      await resetCommand(db, SQLiteStore, config);
+    } finally {
+      setOutputFormat("text");
+      console.log = originalLog;
+    }
+
+    expect(lines.map((line) => JSON.parse(line))).toContainEqual({
+      event: "log",
+      level: "warn",
+      message: "No local version found for 1000000000001. Skipping...",
+    });
+  });
+});
+
+describe("Commands - Integration Tests with schema-qualified table names", () => {
+  const writeMigration = () =>
+    writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n-- +goose Down\nDROP TABLE users;",
+    );
+
+  const tableNames = async (db: SQL) =>
+    (
+      await db<{ name: string }[]>`
+        SELECT name FROM sqlite_master WHERE type='table' ORDER BY name`
+    ).map((row) => row.name);
+
+  test("should quote each part of the table name", () => {
+    expect(quoteTableName("tsgoose.migration")).toBe('"tsgoose"."migration"');
+    expect(quoteTableName("tsgoose.migration", "`")).toBe(
+      "`tsgoose`.`migration`",
+    );
+    expect(quoteTableName('my"table')).toBe('"my""table"');
+  });
+
+  test("should prefix the table name when the schema is not attached", async () => {
+    await writeMigration();
+    const db = new SQL("sqlite::memory:");
+    const provider = createProvider({
+      db,
+      store: SQLiteStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: "tsgoose.migration",
+      },
+    });
+
+    const originalLog = console.log;
+    console.log = mock(() => {});
+    await provider.up();
+    console.log = originalLog;
+
+    expect(await tableNames(db)).toContain("tsgoose_migration");
+    expect((await provider.status()).current_version).toBe(1000000000001n);
+  });
+
+  test("should qualify the table name with an attached database", async () => {
+    await writeMigration();
+    const db = new SQL("sqlite::memory:");
+    const provider = createProvider({
+      db,
+      store: SQLiteStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: "main.schema_migrations",
+      },
+    });
+
+    const originalLog = console.log;
+    console.log = mock(() => {});
+    await provider.up();
+    console.log = originalLog;
+
+    expect(await tableNames(db)).toContain("schema_migrations");
+  });
+
+  test("should move a table created with the dotted name", async () => {
+    await writeMigration();
+    const db = new SQL("sqlite::memory:");
+    await db.unsafe(`create table "tsgoose.migration" (
+        id text primary key not null default (lower(hex(randomblob(16)))),
+        version_id integer not null,
+        applied_at text not null default (datetime('now'))
+    )`);
+    await db.unsafe(
+      `insert into "tsgoose.migration" (version_id) values (1000000000001)`,
+    );
+    const provider = createProvider({
+      db,
+      store: SQLiteStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: "tsgoose.migration",
+      },
+    });
+
+    const originalLog = console.log;
+    const log = mock(() => {});
+    console.log = log;
+    const result = await provider.up();
+    console.log = originalLog;
+
+    expect(result.table_created).toBe(false);
+    expect(result.applied).toEqual([]);
+    expect(log).toHaveBeenCalledWith(
+      'Moved table "tsgoose.migration" to "tsgoose_migration".',
+    );
+    const tables = await tableNames(db);
+    expect(tables).toContain("tsgoose_migration");
+    expect(tables).not.toContain("tsgoose.migration");
+  });
+
+  test("status should report a table with the dotted name without moving it", async () => {
+    await writeMigration();
+    const db = new SQL("sqlite::memory:");
+    await db.unsafe(`create table "tsgoose.migration" (
+        id text primary key not null default (lower(hex(randomblob(16)))),
+        version_id integer not null,
+        applied_at text not null default (datetime('now'))
+    )`);
+    const provider = createProvider({
+      db,
+      store: SQLiteStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: "tsgoose.migration",
+      },
+    });
+
+    const error = await provider.status().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.context.command).toBe("status");
+    expect(await tableNames(db)).toContain("tsgoose.migration");
+  });
+});
+
+describe("Commands - Integration Tests with a new version table", () => {
+  test("up should report the created table before the migrations", async () => {
+    const db = new SQL("sqlite::memory:");
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n-- +goose Down\nDROP TABLE users;",
+    );
+
+    const lines: string[] = [];
+    const originalLog = console.log;
+    console.log = mock((line: string) => {
+      lines.push(line);
+    });
+
+    try {
+      await upCommand(db, SQLiteStore, {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+      });
+    } finally {
+      console.log = originalLog;
+    }
+
+    expect(lines[0]).toBe(`Table ${TEST_TABLE_NAME} created.`);
+    expect(lines[1]).toStartWith("OK\t1000000000001_create_users.sql");
+  });
+});
+
+describe("Commands - Integration Tests with orphaned versions", () => {
+  test("status should show versions that have no local file", async () => {
+    const db = new SQL("sqlite::memory:");
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n-- +goose Down\nDROP TABLE users;",
+    );
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000002_create_posts.sql"),
+      "-- +goose Up\nCREATE TABLE posts (id INTEGER PRIMARY KEY);\n-- +goose Down\nDROP TABLE posts;",
+    );
+    const config = {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+    };
+
+    const lines: string[] = [];
+    const originalLog = console.log;
+    console.log = mock((line: string) => {
+      lines.push(line);
+    });
+
+    try {
+      await upByOneCommand(db, SQLiteStore, config);
+      await SQLiteStore.insertVersion(db, TEST_TABLE_NAME, 1000000000003n);
+      lines.length = 0;
+      await statusCommand(db, SQLiteStore, config);
+    } finally {
+      console.log = originalLog;
+    }
+
+    expect(lines.slice(2)).toEqual([
+      expect.stringMatching(/ -- 1000000000001_create_users\.sql$/),
+      "Missing                  -- 1000000000002_create_posts.sql",
+      expect.stringMatching(
+        / -- version 1000000000003 \(orphaned, no local file\)$/,
+      ),
+      "",
+      "Applied: 1, pending: 0, missing: 1, orphaned: 1",
+      "Current version: 1000000000003",
+    ]);
+  });
+});
+
+describe("Commands - Integration Tests with status --verbose", () => {
+  test("should show the recorded metadata of applied migrations", async () => {
+    const db = new SQL("sqlite::memory:");
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n-- +goose Down\nDROP TABLE users;",
+    );
+    const config = {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+    };
+
+    const lines: string[] = [];
+    const originalLog = console.log;
+    console.log = mock((line: string) => {
+      lines.push(line);
+    });
+    process.env.TSGOOSE_APPLIED_BY = "deploy-bot";
+
+    try {
+      await upCommand(db, SQLiteStore, config);
+      lines.length = 0;
+      setLogLevel("verbose");
+      await statusCommand(db, SQLiteStore, config);
+    } finally {
+      setLogLevel("normal");
+      delete process.env.TSGOOSE_APPLIED_BY;
+      console.log = originalLog;
+    }
+
+    expect(lines[2]).toMatch(
+      /-- 1000000000001_create_users\.sql \(\d+ms by deploy-bot, ts-goose v[\d.]+, checksum [0-9a-f]{12}\)$/,
+    );
+  });
 });
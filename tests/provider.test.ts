@@ -0,0 +1,1004 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { SQL } from "bun";
+import { ExitCode, GooseError } from "../error-handler";
+import { setLogLevel } from "../logger";
+import {
+  clearRegisteredMigrations,
+  findDuplicateVersions,
+  getMigrationVersions,
+  parseMigrationFileName,
+  registerMigration,
+} from "../migration";
+import { version as tool_version } from "../package.json";
+import { createProvider } from "../provider";
+import { SQLiteStore } from "../store-sqlite";
+
+// Test migration directory
+const TEST_MIGRATION_DIR = path.join(
+  import.meta.dir,
+  "test_migrations_provider",
+);
+const TEST_TABLE_NAME = "test_goose_migrations";
+
+const originalLog = console.log;
+
+async function writeMigrations() {
+  await writeFile(
+    path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+    "-- +goose Up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n\n-- +goose Down\nDROP TABLE users;",
+  );
+  await writeFile(
+    path.join(TEST_MIGRATION_DIR, "1000000000002_create_posts.sql"),
+    "-- +goose Up\nCREATE TABLE posts (id INTEGER PRIMARY KEY);\n\n-- +goose Down\nDROP TABLE posts;",
+  );
+  await writeFile(
+    path.join(TEST_MIGRATION_DIR, "1000000000003_create_tags.sql"),
+    "-- +goose Up\nCREATE TABLE tags (id INTEGER PRIMARY KEY);\n\n-- +goose Down\nDROP TABLE tags;",
+  );
+}
+
+function setupProvider() {
+  const db = new SQL("sqlite::memory:");
+  const provider = createProvider({
+    db,
+    store: SQLiteStore,
+    config: {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+    },
+  });
+  return { db, provider };
+}
+
+// Setup and teardown
+beforeEach(async () => {
+  await rm(TEST_MIGRATION_DIR, { recursive: true, force: true });
+  await mkdir(TEST_MIGRATION_DIR, { recursive: true });
+  console.log = mock(() => {});
+});
+
+afterEach(async () => {
+  console.log = originalLog;
+  await rm(TEST_MIGRATION_DIR, { recursive: true, force: true });
+});
+
+describe("Provider", () => {
+  test("up should return applied migrations and current version", async () => {
+    await writeMigrations();
+    const { provider } = setupProvider();
+
+    const result = await provider.up();
+
+    expect(result.table_created).toBe(true);
+    expect(result.applied.map((m) => m.version_id)).toEqual([
+      1000000000001n,
+      1000000000002n,
+      1000000000003n,
+    ]);
+    expect(result.applied[0]?.direction).toBe("up");
+    expect(result.applied[0]?.duration_ms).toBeGreaterThanOrEqual(0);
+    expect(result.current_version).toBe(1000000000003n);
+  });
+
+  test("up should return an empty result instead of exiting when nothing is pending", async () => {
+    await writeMigrations();
+    const { provider } = setupProvider();
+    await provider.up();
+
+    const result = await provider.up();
+
+    expect(result.table_created).toBe(false);
+    expect(result.applied).toEqual([]);
+    expect(result.current_version).toBe(1000000000003n);
+  });
+
+  test("upByOne and upTo should apply a subset of migrations", async () => {
+    await writeMigrations();
+    const { provider } = setupProvider();
+
+    const byOne = await provider.upByOne();
+    expect(byOne.applied.map((m) => m.version_id)).toEqual([1000000000001n]);
+
+    const upTo = await provider.upTo(1000000000002n);
+    expect(upTo.applied.map((m) => m.version_id)).toEqual([1000000000002n]);
+    expect(upTo.current_version).toBe(1000000000002n);
+  });
+
+  test("down, downTo and reset should report rolled back migrations", async () => {
+    await writeMigrations();
+    const { provider } = setupProvider();
+    await provider.up();
+
+    const down = await provider.down();
+    expect(down.rolled_back.map((m) => m.version_id)).toEqual([1000000000003n]);
+    expect(down.current_version).toBe(1000000000002n);
+
+    await provider.up();
+    const downTo = await provider.downTo(1000000000001n);
+    expect(downTo.rolled_back.map((m) => m.version_id)).toEqual([
+      1000000000003n,
+      1000000000002n,
+    ]);
+    expect(downTo.current_version).toBe(1000000000001n);
+
+    const reset = await provider.reset();
+    expect(reset.rolled_back.map((m) => m.version_id)).toEqual([
+      1000000000001n,
+    ]);
+    expect(reset.current_version).toBe(0n);
+  });
+
+  test("redo should roll back and re-apply the latest migration", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    await provider.up();
+    await db`INSERT INTO tags (id) VALUES (1)`;
+
+    const result = await provider.redo();
+
+    expect(result.rolled_back.map((m) => m.direction)).toEqual(["down"]);
+    expect(result.applied.map((m) => m.version_id)).toEqual([1000000000003n]);
+    expect(result.current_version).toBe(1000000000003n);
+    // The table was dropped and created again
+    expect(await db`SELECT * FROM tags`).toHaveLength(0);
+  });
+
+  test("redo should refuse when the latest version has no local file", async () => {
+    await writeMigrations();
+    const { provider } = setupProvider();
+    await provider.up();
+    await rm(path.join(TEST_MIGRATION_DIR, "1000000000003_create_tags.sql"));
+
+    const error = await provider.redo().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.NO_MIGRATIONS);
+    expect(error.context.version).toBe(1000000000003n);
+  });
+
+  test("dry run should print the plan without running migrations", async () => {
+    await writeMigrations();
+    const db = new SQL("sqlite::memory:");
+    const provider = createProvider({
+      db,
+      store: SQLiteStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+        dry_run: true,
+      },
+    });
+
+    const result = await provider.upTo(1000000000002n);
+
+    expect(result.table_created).toBe(true);
+    expect(result.applied.map((m) => m.version_id)).toEqual([
+      1000000000001n,
+      1000000000002n,
+    ]);
+    const output = (console.log as ReturnType<typeof mock>).mock.calls.map(
+      (call) => call[0],
+    );
+    expect(output).toEqual([
+      `Table ${TEST_TABLE_NAME} would be created.`,
+      "[dry-run] up 1000000000001_create_users.sql (1 statements, in a transaction)",
+      "    CREATE TABLE users (id INTEGER PRIMARY KEY);",
+      "[dry-run] up 1000000000002_create_posts.sql (1 statements, in a transaction)",
+      "    CREATE TABLE posts (id INTEGER PRIMARY KEY);",
+    ]);
+    expect(await SQLiteStore.checkTableExists(db, TEST_TABLE_NAME)).toBe(false);
+  });
+
+  test("dry run should plan rollbacks without recording them", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    await provider.up();
+    const dryRun = createProvider({
+      db,
+      store: SQLiteStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+        dry_run: true,
+      },
+    });
+
+    const result = await dryRun.reset();
+
+    expect(result.rolled_back.map((m) => m.version_id)).toEqual([
+      1000000000003n,
+      1000000000002n,
+      1000000000001n,
+    ]);
+    const versions = await SQLiteStore.getVersions(db, TEST_TABLE_NAME);
+    expect(versions.length).toBe(3);
+  });
+
+  test("up should refuse to apply missing migrations by default", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    await provider.up();
+    // Simulate an out-of-order history: 3 applied, 2 never applied
+    await db.unsafe(
+      `DELETE FROM ${TEST_TABLE_NAME} WHERE version_id = 1000000000002`,
+    );
+    await db`DROP TABLE posts`;
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.ERROR);
+    expect(error.context.command).toBe("up");
+    expect(error.message).toContain("1000000000002_create_posts.sql");
+    expect(error.message).toContain("--allow-missing");
+  });
+
+  test("up should apply missing migrations with allow_missing", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    await provider.up();
+    await db.unsafe(
+      `DELETE FROM ${TEST_TABLE_NAME} WHERE version_id = 1000000000002`,
+    );
+    await db`DROP TABLE posts`;
+
+    const result = await createProvider({
+      db,
+      store: SQLiteStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+        allow_missing: true,
+      },
+    }).up();
+
+    expect(result.applied.map((m) => m.version_id)).toEqual([1000000000002n]);
+    expect(await db`SELECT * FROM posts`).toHaveLength(0);
+  });
+
+  test("should refuse to run when two files share a version", async () => {
+    await writeMigrations();
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000002_create_comments.ts"),
+      "export const up = async () => {};\nexport const down = async () => {};",
+    );
+    const { provider } = setupProvider();
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.message).toContain(
+      "1000000000002: 1000000000002_create_comments.ts, 1000000000002_create_posts.sql",
+    );
+    expect(await provider.status().catch((e) => e)).toBeInstanceOf(GooseError);
+  });
+
+  test("findDuplicateVersions should group files by shared version", () => {
+    expect(
+      findDuplicateVersions([
+        { version_id: 1n, file_name: "00001_a.sql", type: "sql" },
+        { version_id: 2n, file_name: "00002_b.sql", type: "sql" },
+        { version_id: 2n, file_name: "00002_c.ts", type: "ts" },
+      ]),
+    ).toEqual([{ version_id: 2n, file_names: ["00002_b.sql", "00002_c.ts"] }]);
+  });
+
+  test("getMigrationVersions should skip files that are not migrations", async () => {
+    for (const file_name of [
+      "1000000000001_v1.2_fix.sql",
+      "1000000000002_seed.ts",
+      "README.md",
+      ".gitkeep",
+      "_helpers.ts",
+      "types.d.ts",
+      "1000000000002_seed.test.ts",
+      "fixtures.ts",
+    ]) {
+      await writeFile(path.join(TEST_MIGRATION_DIR, file_name), "");
+    }
+
+    const versions = await getMigrationVersions(
+      TEST_MIGRATION_DIR,
+      "fixtures.*",
+    );
+
+    expect(versions).toEqual([
+      {
+        version_id: 1000000000001n,
+        file_name: "1000000000001_v1.2_fix.sql",
+        type: "sql",
+      },
+      {
+        version_id: 1000000000002n,
+        file_name: "1000000000002_seed.ts",
+        type: "ts",
+      },
+    ]);
+    await expect(getMigrationVersions(TEST_MIGRATION_DIR)).rejects.toThrow(
+      "Invalid migration file: fixtures.ts",
+    );
+  });
+
+  test("parseMigrationFileName should reject malformed names", () => {
+    expect(() => parseMigrationFileName("v1_users.sql")).toThrow(
+      '"v1" is not a valid version number',
+    );
+    expect(() => parseMigrationFileName("00001.sql")).toThrow(
+      "expected <version>_<name>.sql",
+    );
+    expect(() => parseMigrationFileName("00000_init.sql")).toThrow(
+      '"00000" is not a valid version number',
+    );
+  });
+
+  test("should pass a context to TypeScript migrations", async () => {
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_context.ts"),
+      `import type { TransactionSQL } from "bun";
+import type { MigrationContext } from "../../migration";
+
+export const up = async (tx: TransactionSQL, ctx: MigrationContext) => {
+  if (ctx.driver === "sqlite") {
+    await tx\`CREATE TABLE items (id INTEGER PRIMARY KEY)\`;
+  }
+  ctx.logger.info(\`\${ctx.direction} \${ctx.version_id} dry=\${ctx.isDryRun} table=\${ctx.config.table_name}\`);
+};
+
+export const down = async (tx: TransactionSQL) => {
+  await tx\`DROP TABLE items\`;
+};
+`,
+    );
+    const { db, provider } = setupProvider();
+
+    await provider.up();
+
+    expect(console.log).toHaveBeenCalledWith(
+      "[1000000000001_context.ts]",
+      `up 1000000000001 dry=false table=${TEST_TABLE_NAME}`,
+    );
+    expect(await db`SELECT * FROM items`).toHaveLength(0);
+  });
+
+  test("dry run should print the statements of TypeScript migrations", async () => {
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_seed.ts"),
+      `import type { TransactionSQL } from "bun";
+import type { MigrationContext } from "../../migration";
+
+export const up = async (tx: TransactionSQL, ctx: MigrationContext) => {
+  await tx\`INSERT INTO users (id, name) VALUES (\${1}, \${"admin"})\`;
+  ctx.logger.info(\`dry=\${ctx.isDryRun}\`);
+};
+
+export const down = async () => {};
+`,
+    );
+    const db = new SQL("sqlite::memory:");
+    const provider = createProvider({
+      db,
+      store: SQLiteStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+        dry_run: true,
+      },
+    });
+
+    await provider.up();
+
+    const output = (console.log as ReturnType<typeof mock>).mock.calls.map(
+      (call) => call.join(" "),
+    );
+    expect(output).toEqual([
+      `Table ${TEST_TABLE_NAME} would be created.`,
+      "[dry-run] up 1000000000001_seed.ts (in a transaction)",
+      "    INSERT INTO users (id, name) VALUES ($1, $2)",
+      "[1000000000001_seed.ts] dry=true",
+    ]);
+  });
+
+  test("status should list applied and pending migrations", async () => {
+    await writeMigrations();
+    const { provider } = setupProvider();
+    await provider.upByOne();
+
+    const result = await provider.status();
+
+    expect(result.migrations.length).toBe(3);
+    expect(result.migrations[0]?.applied_at).toBeInstanceOf(Date);
+    expect(result.migrations[1]?.applied_at).toBeNull();
+    expect(result.current_version).toBe(1000000000001n);
+  });
+
+  test("status should list missing migrations and orphaned versions", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    await provider.up();
+    await db.unsafe(
+      `DELETE FROM ${TEST_TABLE_NAME} WHERE version_id = 1000000000002`,
+    );
+    await rm(path.join(TEST_MIGRATION_DIR, "1000000000003_create_tags.sql"));
+
+    const result = await provider.status();
+
+    expect(
+      result.migrations.map(({ version_id, file_name, type, state }) => ({
+        version_id,
+        file_name,
+        type,
+        state,
+      })),
+    ).toEqual([
+      {
+        version_id: 1000000000001n,
+        file_name: "1000000000001_create_users.sql",
+        type: "sql",
+        state: "applied",
+      },
+      {
+        version_id: 1000000000002n,
+        file_name: "1000000000002_create_posts.sql",
+        type: "sql",
+        state: "missing",
+      },
+      {
+        version_id: 1000000000003n,
+        file_name: "1000000000003_create_tags.sql",
+        type: null,
+        state: "orphaned",
+      },
+    ]);
+    expect(result.migrations[2]?.applied_at).toBeInstanceOf(Date);
+    expect(result.summary).toEqual({
+      applied: 1,
+      pending: 0,
+      missing: 1,
+      orphaned: 1,
+    });
+    expect(result.current_version).toBe(1000000000003n);
+  });
+
+  test("should record metadata with each applied version", async () => {
+    await writeMigrations();
+    const { provider } = setupProvider();
+    process.env.TSGOOSE_APPLIED_BY = "deploy-bot";
+
+    try {
+      await provider.upByOne();
+    } finally {
+      delete process.env.TSGOOSE_APPLIED_BY;
+    }
+
+    const [applied, pending] = (await provider.status()).migrations;
+    const content = await Bun.file(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+    ).text();
+    expect(applied?.metadata).toEqual({
+      file_name: "1000000000001_create_users.sql",
+      checksum: new Bun.CryptoHasher("sha256").update(content).digest("hex"),
+      duration_ms: expect.any(Number),
+      applied_by: "deploy-bot",
+      tool_version,
+    });
+    expect(pending?.metadata).toBeUndefined();
+  });
+
+  test("should add the metadata columns to an existing version table", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    await db.unsafe(`create table "${TEST_TABLE_NAME}" (
+        id text primary key not null default (lower(hex(randomblob(16)))),
+        version_id integer not null,
+        applied_at text not null default (datetime('now'))
+    )`);
+    await db.unsafe(
+      `insert into "${TEST_TABLE_NAME}" (version_id) values (1000000000001)`,
+    );
+
+    await provider.upByOne();
+
+    const columns = await db<{ name: string }[]>`
+      select name from pragma_table_info(${TEST_TABLE_NAME})`;
+    expect(columns.map((column) => column.name)).toContain("checksum");
+    const [first, second] = (await provider.status()).migrations;
+    expect(first?.applied_at).toBeInstanceOf(Date);
+    expect(first?.metadata).toBeUndefined();
+    expect(second?.metadata?.file_name).toBe("1000000000002_create_posts.sql");
+  });
+
+  test("redo and down-to should upgrade a version table with the old layout", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    await provider.up();
+    await db.unsafe(`drop table "${TEST_TABLE_NAME}"`);
+    await db.unsafe(`create table "${TEST_TABLE_NAME}" (
+        id text primary key not null default (lower(hex(randomblob(16)))),
+        version_id integer not null,
+        applied_at text not null default (datetime('now'))
+    )`);
+    await db.unsafe(
+      `insert into "${TEST_TABLE_NAME}" (version_id) values (1000000000001), (1000000000002), (1000000000003)`,
+    );
+
+    const redo = await provider.redo();
+    expect(redo.applied.map((m) => m.version_id)).toEqual([1000000000003n]);
+    expect(await db`SELECT * FROM tags`).toHaveLength(0);
+
+    const downTo = await provider.downTo(1000000000001n);
+    expect(downTo.rolled_back.map((m) => m.version_id)).toEqual([
+      1000000000003n,
+      1000000000002n,
+    ]);
+    const versions = await SQLiteStore.getVersions(db, TEST_TABLE_NAME);
+    expect(versions.map((v) => v.version_id)).toEqual([1000000000001n]);
+  });
+
+  test("up should refuse to run when an applied migration was modified", async () => {
+    await writeMigrations();
+    const { provider } = setupProvider();
+    await provider.upByOne();
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);\n\n-- +goose Down\nDROP TABLE users;",
+    );
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.ERROR);
+    expect(error.context.command).toBe("up");
+    expect(error.message).toContain("1000000000001_create_users.sql");
+    expect(error.message).toContain("--ignore-checksums");
+    const [users, posts] = (await provider.status()).migrations;
+    expect(users?.modified).toBe(true);
+    expect(posts?.modified).toBe(false);
+  });
+
+  test("up should apply migrations with ignore_checksums", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    await provider.upByOne();
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+      "-- +goose Up\n-- users\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n\n-- +goose Down\nDROP TABLE users;",
+    );
+
+    const result = await createProvider({
+      db,
+      store: SQLiteStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+        ignore_checksums: true,
+      },
+    }).up();
+
+    expect(result.applied.map((m) => m.version_id)).toEqual([
+      1000000000002n,
+      1000000000003n,
+    ]);
+  });
+
+  test("repair should record the checksum of modified migrations", async () => {
+    await writeMigrations();
+    const { provider } = setupProvider();
+    await provider.up();
+    const content =
+      "-- +goose Up\n-- users\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n\n-- +goose Down\nDROP TABLE users;";
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+      content,
+    );
+
+    const result = await provider.repair();
+
+    const checksum = new Bun.CryptoHasher("sha256")
+      .update(content)
+      .digest("hex");
+    expect(result.repaired).toEqual([
+      {
+        version_id: 1000000000001n,
+        file_name: "1000000000001_create_users.sql",
+        checksum,
+        previous_checksum: expect.any(String),
+      },
+    ]);
+    const [users] = (await provider.status()).migrations;
+    expect(users?.modified).toBe(false);
+    expect(users?.metadata?.checksum).toBe(checksum);
+    expect((await provider.repair()).repaired).toEqual([]);
+    expect((await provider.up()).applied).toEqual([]);
+  });
+
+  test("repair should record checksums of versions applied before them", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    await db.unsafe(`create table "${TEST_TABLE_NAME}" (
+        id text primary key not null default (lower(hex(randomblob(16)))),
+        version_id integer not null,
+        applied_at text not null default (datetime('now'))
+    )`);
+    await db.unsafe(
+      `insert into "${TEST_TABLE_NAME}" (version_id) values (1000000000001)`,
+    );
+
+    const result = await provider.repair();
+
+    expect(result.repaired).toMatchObject([
+      { version_id: 1000000000001n, previous_checksum: null },
+    ]);
+    const [users] = (await provider.status()).migrations;
+    expect(users?.metadata).toEqual({
+      file_name: "1000000000001_create_users.sql",
+      checksum: result.repaired[0]?.checksum ?? "",
+      duration_ms: null,
+      applied_by: null,
+      tool_version: null,
+    });
+
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_create_users.sql"),
+      "-- +goose Up\nCREATE TABLE people (id INTEGER PRIMARY KEY);\n",
+    );
+    expect((await provider.status()).migrations[0]?.modified).toBe(true);
+  });
+
+  test("should print the store's transaction warning unless quiet", async () => {
+    await writeMigrations();
+    const db = new SQL("sqlite::memory:");
+    const warn = mock(() => {});
+    const originalWarn = console.warn;
+    console.warn = warn;
+    const config = {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+    };
+    const store = {
+      ...SQLiteStore,
+      transactionWarning: (statements: string[]) =>
+        statements.some((statement) => statement.includes("posts"))
+          ? "Warning: posts"
+          : undefined,
+    };
+
+    try {
+      await createProvider({
+        db,
+        store,
+        config: { ...config, dry_run: true },
+      }).up();
+      expect(warn).toHaveBeenCalledWith("Warning: posts");
+
+      warn.mockClear();
+      setLogLevel("quiet");
+      await createProvider({ db, store, config }).up();
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      setLogLevel("normal");
+      console.warn = originalWarn;
+    }
+  });
+
+  test("should throw GooseError for a malformed SQL migration", async () => {
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_unclosed.sql"),
+      "-- +goose Up\n-- +goose StatementBegin\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n",
+    );
+    const { provider } = setupProvider();
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.MIGRATION_ERROR);
+    expect(error.context.fileName).toBe("1000000000001_unclosed.sql");
+    expect(error.message).toContain("StatementBegin");
+  });
+
+  test("should throw GooseError for an invalid migration file name", async () => {
+    await writeMigrations();
+    await writeFile(path.join(TEST_MIGRATION_DIR, "v2_posts.sql"), "");
+    const { provider } = setupProvider();
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.ERROR);
+    expect(error.context.fileName).toBe("v2_posts.sql");
+  });
+
+  test("should throw GooseError when a custom source fails", async () => {
+    const provider = createProvider({
+      db: new SQL("sqlite::memory:"),
+      store: SQLiteStore,
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+      },
+      source: {
+        listMigrations: async () => {
+          throw new Error("bucket not found");
+        },
+        loadMigrations: async () => [],
+        readChecksums: async () => new Map(),
+      },
+    });
+
+    const error = await provider.status().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.message).toContain("bucket not found");
+  });
+
+  test("should throw GooseError instead of exiting", async () => {
+    await writeMigrations();
+    const { provider } = setupProvider();
+
+    const error = await provider.down().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.ERROR);
+    expect(error.context.tableName).toBe(TEST_TABLE_NAME);
+  });
+
+  test("should throw GooseError with MIGRATION_ERROR when a migration fails", async () => {
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_broken.sql"),
+      "-- +goose Up\nCREATE TABLE (;\n\n-- +goose Down\n",
+    );
+    const { provider } = setupProvider();
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.MIGRATION_ERROR);
+    expect(error.context.fileName).toBe("1000000000001_broken.sql");
+  });
+
+  test("should report the failing statement and its line", async () => {
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_broken.sql"),
+      "-- +goose Up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n\nINSERT INTO missing\nVALUES (1);\n\n-- +goose Down\n",
+    );
+    const { provider } = setupProvider();
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.context.statementIndex).toBe(1);
+    expect(error.context.statement).toBe("INSERT INTO missing\nVALUES (1);");
+    expect(error.context.line).toBe(4);
+    expect(error.context.code).toBe("SQLITE_ERROR");
+  });
+
+  test("should report connection errors as database errors", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    await db.close();
+
+    const error = await provider.status().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.DATABASE_ERROR);
+    expect(error.context.tableName).toBe(TEST_TABLE_NAME);
+  });
+
+  test("should report connection errors of mutating commands as database errors", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    await db.close();
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.DATABASE_ERROR);
+    expect(error.context.tableName).toBe(TEST_TABLE_NAME);
+  });
+
+  test("should not create the table when the existence check fails", async () => {
+    await writeMigrations();
+    const createTable = mock(async () => {});
+    const provider = createProvider({
+      db: new SQL("sqlite::memory:"),
+      store: {
+        ...SQLiteStore,
+        checkTableExists: async () => {
+          throw new Error("permission denied for schema tsgoose");
+        },
+        createTable,
+      },
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+      },
+    });
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error.exitCode).toBe(ExitCode.DATABASE_ERROR);
+    expect(error.message).toContain("permission denied for schema tsgoose");
+    expect(createTable).not.toHaveBeenCalled();
+  });
+
+  test("should time out when another process holds the lock", async () => {
+    await writeMigrations();
+    const db = new SQL("sqlite::memory:");
+    const config = {
+      migration_dir: TEST_MIGRATION_DIR,
+      table_name: TEST_TABLE_NAME,
+      lock_timeout_ms: 50,
+      lock_retry_interval_ms: 10,
+    };
+    const release = await SQLiteStore.acquireLock(db, TEST_TABLE_NAME, {
+      timeout_ms: 0,
+      retry_interval_ms: 0,
+    });
+    const provider = createProvider({ db, store: SQLiteStore, config });
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.LOCK_ERROR);
+
+    await release();
+    const result = await provider.up();
+    expect(result.applied.length).toBe(3);
+  });
+
+  test("should take over a SQLite lock left by a process that has exited", async () => {
+    await writeMigrations();
+    const { db, provider } = setupProvider();
+    const release = await SQLiteStore.acquireLock(db, TEST_TABLE_NAME, {
+      timeout_ms: 0,
+      retry_interval_ms: 0,
+    });
+    const exited = Bun.spawnSync(["true"]);
+    await db.unsafe(`update "${TEST_TABLE_NAME}_lock" set pid = ?`, [
+      exited.pid,
+    ]);
+
+    const result = await provider.up();
+
+    expect(result.applied.length).toBe(3);
+    await release();
+  });
+
+  test("should report the migration error when releasing the lock fails", async () => {
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_broken.sql"),
+      "-- +goose Up\nCREATE TABLE (;\n\n-- +goose Down\n",
+    );
+    const db = new SQL("sqlite::memory:");
+    const provider = createProvider({
+      db,
+      store: {
+        ...SQLiteStore,
+        acquireLock: async () => async () => {
+          throw new Error("Connection closed");
+        },
+      },
+      config: {
+        migration_dir: TEST_MIGRATION_DIR,
+        table_name: TEST_TABLE_NAME,
+      },
+    });
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.MIGRATION_ERROR);
+  });
+
+  test("should wait for the SQLite lock while another connection writes", async () => {
+    const file = path.join(TEST_MIGRATION_DIR, "lock.sqlite");
+    const writer = new SQL(`sqlite://${file}`);
+    const waiter = new SQL(`sqlite://${file}`);
+    let acquired: Promise<() => Promise<void>> | undefined;
+
+    await writer.begin(async (tx) => {
+      await tx`CREATE TABLE users (id INTEGER PRIMARY KEY)`;
+      acquired = SQLiteStore.acquireLock(waiter, TEST_TABLE_NAME, {
+        timeout_ms: 2000,
+        retry_interval_ms: 10,
+      });
+      await Bun.sleep(50);
+    });
+
+    const release = await acquired;
+    await release?.();
+    await writer.close();
+    await waiter.close();
+  });
+
+  test("should release the lock after a failed migration", async () => {
+    await writeFile(
+      path.join(TEST_MIGRATION_DIR, "1000000000001_broken.sql"),
+      "-- +goose Up\nCREATE TABLE (;\n\n-- +goose Down\n",
+    );
+    const { db, provider } = setupProvider();
+
+    await provider.up().catch(() => {});
+
+    const release = await SQLiteStore.acquireLock(db, TEST_TABLE_NAME, {
+      timeout_ms: 0,
+      retry_interval_ms: 0,
+    });
+    await release();
+  });
+});
+
+describe("Provider - registerMigration", () => {
+  afterEach(() => {
+    clearRegisteredMigrations();
+  });
+
+  test("should run registered migrations in version order with files", async () => {
+    await writeMigrations();
+    const calls: string[] = [];
+    registerMigration(1000000000004n, {
+      name: "backfill",
+      up: async (tx) => {
+        calls.push("up");
+        await tx`INSERT INTO users (id) VALUES (1)`;
+      },
+      down: async (tx) => {
+        calls.push("down");
+        await tx`DELETE FROM users`;
+      },
+    });
+    const { db, provider } = setupProvider();
+
+    const result = await provider.up();
+
+    expect(result.applied.map((m) => m.file_name)).toEqual([
+      "1000000000001_create_users.sql",
+      "1000000000002_create_posts.sql",
+      "1000000000003_create_tags.sql",
+      "1000000000004_backfill.ts",
+    ]);
+    expect(await db`SELECT * FROM users`).toHaveLength(1);
+
+    await provider.downTo(1000000000003n);
+    expect(calls).toEqual(["up", "down"]);
+    expect(await db`SELECT * FROM users`).toHaveLength(0);
+  });
+
+  test("should run registered migrations without a transaction when asked", async () => {
+    const connections: unknown[] = [];
+    registerMigration(1, {
+      transaction: false,
+      up: async (db) => {
+        connections.push(db);
+      },
+    });
+    const { db, provider } = setupProvider();
+
+    await provider.up();
+
+    expect(connections.length).toBe(1);
+    expect(connections[0]).toBe(db);
+  });
+
+  test("should report a registered version that is also a file", async () => {
+    await writeMigrations();
+    registerMigration(1000000000002n, { up: async () => {} });
+    const { provider } = setupProvider();
+
+    const error = await provider.up().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.message).toContain(
+      "registered in code as 1000000000002_registered.ts and also defined by file 1000000000002_create_posts.sql",
+    );
+  });
+
+  test("should reject registering the same version twice", () => {
+    registerMigration(1, { up: async () => {} });
+
+    expect(() => registerMigration(1, { up: async () => {} })).toThrow(
+      "already registered as 00001_registered.ts",
+    );
+  });
+});
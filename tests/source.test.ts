@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { SQL } from "bun";
+import { ExitCode, GooseError } from "../error-handler";
+import { createProvider } from "../provider";
+import { createEmbeddedSource } from "../source";
+import { SQLiteStore } from "../store-sqlite";
+
+const TEST_TABLE_NAME = "test_goose_migrations";
+
+const originalLog = console.log;
+
+beforeEach(() => {
+  console.log = mock(() => {});
+});
+
+afterEach(() => {
+  console.log = originalLog;
+});
+
+const usersSql = `-- +goose Up
+CREATE TABLE users (id INTEGER PRIMARY KEY);
+
+-- +goose Down
+DROP TABLE users;
+`;
+
+function setupProvider(source: ReturnType<typeof createEmbeddedSource>) {
+  const db = new SQL("sqlite::memory:");
+  const provider = createProvider({
+    db,
+    store: SQLiteStore,
+    // The directory does not exist: migrations come from the source
+    config: { migration_dir: "./does-not-exist", table_name: TEST_TABLE_NAME },
+    source,
+  });
+  return { db, provider };
+}
+
+describe("Source - createEmbeddedSource", () => {
+  test("should list SQL and TS migrations sorted by version", async () => {
+    const source = createEmbeddedSource([
+      { version: 2, name: "seed", up: async () => {} },
+      { version: 1, name: "users", sql: usersSql },
+    ]);
+
+    expect(await source.listMigrations()).toEqual([
+      { version_id: 1n, file_name: "00001_users.sql", type: "sql" },
+      { version_id: 2n, file_name: "00002_seed.ts", type: "ts" },
+    ]);
+  });
+
+  test("should apply and roll back embedded migrations", async () => {
+    const { db, provider } = setupProvider(
+      createEmbeddedSource([
+        { version: 1, name: "users", sql: usersSql },
+        {
+          version: 2n,
+          name: "seed_users",
+          up: async (tx) => {
+            await tx`INSERT INTO users (id) VALUES (1)`;
+          },
+          down: async (tx) => {
+            await tx`DELETE FROM users`;
+          },
+        },
+      ]),
+    );
+
+    const up = await provider.up();
+    expect(up.applied.map((m) => m.file_name)).toEqual([
+      "00001_users.sql",
+      "00002_seed_users.ts",
+    ]);
+    const users = await db<{ id: number }[]>`SELECT id FROM users`;
+    expect(users).toEqual([{ id: 1 }]);
+
+    const reset = await provider.reset();
+    expect(reset.rolled_back.map((m) => m.version_id)).toEqual([2n, 1n]);
+    expect(
+      await db`SELECT name FROM sqlite_master WHERE name = 'users'`,
+    ).toHaveLength(0);
+  });
+
+  test("should fail the rollback of a migration without a down function", async () => {
+    const { provider } = setupProvider(
+      createEmbeddedSource([{ version: 1, name: "noop", up: async () => {} }]),
+    );
+    await provider.up();
+
+    const error = await provider.down().catch((e) => e);
+
+    expect(error).toBeInstanceOf(GooseError);
+    expect(error.exitCode).toBe(ExitCode.MIGRATION_ERROR);
+    expect(error.message).toContain("has no down function");
+  });
+
+  test("should reject duplicate and invalid versions", () => {
+    expect(() =>
+      createEmbeddedSource([
+        { version: 1, name: "a", sql: usersSql },
+        { version: 1, name: "b", up: async () => {} },
+      ]),
+    ).toThrow("00001_a.sql, 00001_b.ts");
+
+    expect(() =>
+      createEmbeddedSource([{ version: 0, name: "zero", sql: usersSql }]),
+    ).toThrow("version must be a positive integer");
+  });
+});
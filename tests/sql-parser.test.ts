@@ -7,6 +7,7 @@ import { describe, expect, test } from "bun:test";
 import {
   extractDownSection,
   extractUpSection,
+  findImplicitCommitStatements,
   parseSqlStatements,
   validateMigrationFile,
 } from "../sql-parser";
@@ -474,6 +475,21 @@ describe("SQL Parser - Section Extraction", () => {
     expect(result.statements[2]).toContain("DROP TABLE");
   });
 
+  test("should report the file line where each statement starts", () => {
+    const content = `-- +goose Up
+CREATE TABLE a (id INT);
+
+-- first insert
+INSERT INTO a VALUES (1); INSERT INTO a
+  VALUES (2);
+
+-- +goose Down
+DROP TABLE a;
+`;
+    expect(parseSqlStatements(content, "up").lines).toEqual([2, 5, 5]);
+    expect(parseSqlStatements(content, "down").lines).toEqual([9]);
+  });
+
   test("should throw error when UP section is missing", () => {
     const content = "CREATE TABLE users (id INT);";
     expect(() => extractUpSection(content)).toThrow(
@@ -1154,3 +1170,49 @@ DROP INDEX IF EXISTS idx_users_email;`;
     expect(downResult.transaction).toBe(false);
   });
 });
+
+describe("SQL Parser - MySQL", () => {
+  test("should not split on semicolons inside backtick-quoted identifiers", () => {
+    const content = `-- +goose Up
+CREATE TABLE \`odd;name\` (id INT);
+INSERT INTO \`odd;name\` (id) VALUES (1);
+
+-- +goose Down
+DROP TABLE \`odd;name\`;`;
+
+    const result = parseSqlStatements(content, "up");
+    expect(result.statements).toEqual([
+      "CREATE TABLE `odd;name` (id INT);",
+      "INSERT INTO `odd;name` (id) VALUES (1);",
+    ]);
+  });
+
+  test("should handle escaped backticks", () => {
+    const result = parseSqlStatements("SELECT 1 AS `a``;b`; SELECT 2;", "up");
+    expect(result.statements).toHaveLength(2);
+    expect(result.statements[0]).toBe("SELECT 1 AS `a``;b`;");
+  });
+
+  test("should find statements that commit implicitly", () => {
+    const statements = [
+      "INSERT INTO users (id) VALUES (1);",
+      "-- add a column\nALTER TABLE users ADD COLUMN name TEXT;",
+      "/* new table */ CREATE TABLE posts (id INT);",
+      "UPDATE users SET name = 'create';",
+    ];
+
+    expect(findImplicitCommitStatements(statements)).toEqual([
+      "-- add a column\nALTER TABLE users ADD COLUMN name TEXT;",
+      "/* new table */ CREATE TABLE posts (id INT);",
+    ]);
+  });
+
+  test("should return no statements for DML-only migrations", () => {
+    expect(
+      findImplicitCommitStatements([
+        "INSERT INTO users (id) VALUES (1);",
+        "DELETE FROM users WHERE id = 2;",
+      ]),
+    ).toEqual([]);
+  });
+});